@@ -1,14 +1,17 @@
 import { spawn, SpawnOptions } from 'child_process';
+import { EventEmitter } from 'events';
 import * as fs from 'fs-extra';
 import * as path from 'path';
 import * as os from 'os';
+import * as crypto from 'crypto';
 import { Readable } from 'stream';
 import blessed from 'blessed';
 import chalk from 'chalk';
+import { pinyin } from 'pinyin-pro';
 // Using require for p-limit since it's a CommonJS module in our setup
 const pLimit = require('p-limit');
 
-// Helper function to convert time format (HH:MM:SS.ms) to seconds
+// Helper function to convert time format (HH:MM:SS.ms or MM:SS) to seconds
 function timeToSeconds(time: string): number {
     const parts = time.split(':');
     if (parts.length === 3) {
@@ -17,6 +20,9 @@ function timeToSeconds(time: string): number {
         const seconds = parseFloat(parts[2]);
         return hours * 3600 + minutes * 60 + seconds;
     }
+    if (parts.length === 2) {
+        return parseInt(parts[0], 10) * 60 + parseFloat(parts[1]);
+    }
     return 0;
 }
 
@@ -72,6 +78,16 @@ const log = function(message: string) {
         logBuffer.shift(); // Remove oldest log entry
     }
     
+    // Without the UI (CLI commands and headless sync), write lines or events to stdout
+    if (!screen) {
+        if (outputMode === 'json') {
+            emitEvent('log', { message });
+        } else {
+            console.log(formattedMessage);
+        }
+        return;
+    }
+    
     try {
         // Log to UI - use pushLine instead of log to ensure proper containment
         logBox.pushLine(formattedMessage);
@@ -96,7 +112,196 @@ const log = function(message: string) {
 };
 
 // Configuration
-const config = {
+interface VideoFormatConfig {
+    container: 'mp4' | 'mkv';
+    codec: string;
+    profile: string;
+    level: string;
+    resolution: string; // Target WIDTH:HEIGHT box
+    scaling: 'fit' | 'pad' | 'stretch'; // fit keeps the aspect ratio, pad also letterboxes to the exact size
+    maxFrameRate?: number;
+    maxRate: string;
+    bufSize: string;
+    audioCodec: string;
+    audioBitrate: string;
+    audioSampleRate?: number;
+    audioChannels?: number;
+}
+
+interface AudioFormatConfig {
+    format: 'mp3' | 'm4a';
+    bitrateMode: 'cbr' | 'vbr';
+    bitrate: string;
+    quality: number; // LAME VBR quality (0 = best, 9 = smallest), used when bitrateMode is vbr
+    sampleRate?: number;
+    channels?: number;
+}
+
+type MediaType = 'video' | 'audio';
+
+// How output files are named: a template of yt-dlp fields and how the result is cleaned up for the head unit
+interface FileNameConfig {
+    template: string; // e.g. "{artist} - {title}"; numbering, ID suffix and extension are added around it
+    ascii: boolean; // Replace accented and other non-ASCII characters
+    transliterate: boolean; // Drop emoji and, with ascii, romanize Cyrillic, Greek, Arabic, kana and Hangul
+    spaces: 'keep' | 'underscore';
+    case: 'keep' | 'lower' | 'upper';
+    maxLength: number; // Characters of the rendered template
+}
+
+// A named car head-unit target
+interface DeviceProfile {
+    description?: string;
+    mediaType: MediaType;
+    videoFormat: VideoFormatConfig;
+    audioFormat: AudioFormatConfig;
+    fileNames: FileNameConfig;
+}
+
+// Profile definition from the config file; settings not given are inherited from "extends" (or "default")
+interface ProfileConfig {
+    description?: string;
+    extends?: string;
+    mediaType?: MediaType;
+    videoFormat?: Partial<VideoFormatConfig>;
+    audioFormat?: Partial<AudioFormatConfig>;
+    fileNames?: Partial<FileNameConfig>;
+}
+
+// Classes of track failures, each retried by its own policy
+type ErrorCode = 'unavailable' | 'geo-blocked' | 'age-restricted' | 'extractor' | 'network' | 'ffmpeg' | 'disk-full' | 'unknown';
+
+const errorCodes: ErrorCode[] = ['unavailable', 'geo-blocked', 'age-restricted', 'extractor', 'network', 'ffmpeg', 'disk-full', 'unknown'];
+
+// How failures of one class are retried
+interface RetryPolicy {
+    maxRetries: number; // Failed syncs before the track is skipped until "retry" resets it
+    inRunRetries: number; // Retries within the same sync
+    backoff: number; // Seconds before the first retry within a sync, doubled for each further one
+    retryAfter: number; // Hours before a later sync tries again, doubled after each failed sync
+}
+
+// Parts of a track left out of the output. Times are seconds or "m:ss"/"h:mm:ss"
+interface TrimConfig {
+    start?: number | string; // Begin the output here
+    end?: number | string; // End the output here; negative times count back from the end of the video
+    cut?: string[]; // Ranges to remove, e.g. "2:10-2:35"
+    silence?: boolean; // Remove silence at the start and the end
+}
+
+// A playlist or video entry; plain URL strings use the global settings
+interface SourceConfig {
+    url: string;
+    profile?: string;
+    mediaType?: MediaType;
+    videoFormat?: Partial<VideoFormatConfig>;
+    audioFormat?: Partial<AudioFormatConfig>;
+    fileNames?: Partial<FileNameConfig>;
+    split?: string; // Split into tracks by "chapters", "description" timestamps, "auto" (either) or a .cue file
+    trim?: TrimConfig; // For every video of the source
+}
+
+type SourceEntry = string | SourceConfig;
+
+// Layout of the download directory
+interface OutputConfig {
+    playlistFolders: boolean; // One subfolder per playlist, named after the playlist title
+    numberTracks: boolean; // Prefix playlist tracks with their zero-padded position
+    singlesFolder: string; // Subfolder for videoUrls ("" for the top level)
+    duplicates: 'hardlink' | 'copy' | 'single'; // How to handle a track listed in several playlists
+}
+
+// Playlist files written next to the media after each sync
+interface PlaylistFilesConfig {
+    enabled: boolean;
+    formats: ('m3u' | 'm3u8' | 'pls')[];
+    encoding: 'latin1' | 'utf8'; // Encoding of .m3u and .pls files; .m3u8 is always UTF-8
+    pathSeparator: '/' | '\\';
+    lineEndings: 'crlf' | 'lf';
+    allTracksName: string; // Name of the playlist with every track, "" to skip it
+}
+
+// Mirroring the library onto a USB stick or other mounted directory
+interface PushConfig {
+    target: string; // Default target directory of the "push" command
+    compare: 'mtime' | 'hash'; // How unchanged files are detected: size + modification time, or content hash
+    verify: boolean; // Read every copied file back and compare hashes
+}
+
+// Limits of the USB stick's filesystem (FAT32 by default) and of the head unit reading it
+interface FilesystemConfig {
+    maxFileSize: string; // Outputs must stay below this size ("4G"); larger ones are split into parts, "" for no limit
+    maxFileNameLength: number; // Characters per file or folder name, 0 for no limit
+    maxPathLength: number; // Characters of a path below the library root, 0 for no limit
+    maxFilesPerFolder: number; // Tracks per folder before spilling into numbered subfolders, 0 for no limit
+}
+
+// What sync does with tracks no source lists anymore
+interface PruneConfig {
+    policy: 'report' | 'archive' | 'delete';
+    maxTracks: number; // Prune at most this many tracks in one sync without --confirm-prune
+}
+
+// EBU R128 loudness normalization: ffmpeg measures each track's audio first, then corrects it to the target
+interface LoudnessConfig {
+    enabled: boolean;
+    target: number; // Integrated loudness in LUFS
+    truePeak: number; // Ceiling in dBTP
+    range: number; // Loudness range target in LU
+}
+
+// Checks every output goes through before its track counts as downloaded
+interface VerifyConfig {
+    enabled: boolean;
+    durationTolerance: number; // Seconds an output may be longer or shorter than expected
+    decodeSeconds: number; // Seconds test-decoded at the start and the end of each file, 0 to skip
+}
+
+// Container tags and cover art written into the output files
+interface TagsConfig {
+    enabled: boolean;
+    coverArt: boolean;
+    // Tag name -> template of yt-dlp fields, e.g. "{artist|uploader}" uses the first field with a value
+    mapping: {
+        [tag: string]: string;
+    };
+}
+
+interface SyncConfig {
+    playlistUrls: SourceEntry[];
+    videoUrls: SourceEntry[];
+    maxRetries: number; // Default for retry policies that don't set their own
+    retryPolicies: {
+        [code in ErrorCode]?: Partial<RetryPolicy>;
+    };
+    concurrency: number; // Parallel transcodes
+    downloadConcurrency: number;
+    transcodeBuffer: number; // Downloaded tracks that may wait for a transcode slot
+    profile: string;
+    profiles: {
+        [name: string]: ProfileConfig;
+    };
+    mediaType: MediaType;
+    videoFormat: VideoFormatConfig;
+    audioFormat: AudioFormatConfig;
+    fileNames: FileNameConfig;
+    output: OutputConfig;
+    playlistFiles: PlaylistFilesConfig;
+    push: PushConfig;
+    filesystem: FilesystemConfig;
+    prune: PruneConfig;
+    loudness: LoudnessConfig;
+    trim: TrimConfig; // For every track
+    trims: {
+        [url: string]: TrimConfig; // For single tracks, by video URL
+    };
+    tags: TagsConfig;
+    verify: VerifyConfig;
+    streamCopy: boolean; // Keep source streams that already fit the profile instead of re-encoding them
+}
+
+// Defaults used when no config file is present or a key is omitted from it
+const defaultConfig: SyncConfig = {
     playlistUrls: [
         'https://youtube.com/playlist?list=PL6YVnWd7IiQVHepsVJGTO7hodBqMeRg2t', // Topz
         'https://www.youtube.com/playlist?list=OLAK5uy_k_jFyltFvjyyYWHUugmYak6qFBY5KEf98' // Above and Beyond Acoustic 1
@@ -109,25 +314,180 @@ const config = {
         'https://youtube.com/watch?v=v7PJqCTX5ZE', // Armin van Buuren - Tomorrowland 2022 WE2
     ],
     maxRetries: 3,
+    retryPolicies: {
+        // Private, removed or blocked videos rarely come back, so check them again only weekly
+        unavailable: { maxRetries: 3, retryAfter: 168 },
+        'geo-blocked': { maxRetries: 3, retryAfter: 168 },
+        'age-restricted': { maxRetries: 3, retryAfter: 168 },
+        // YouTube changes break yt-dlp until it is updated, which the next sync does
+        extractor: { maxRetries: 10, inRunRetries: 1, backoff: 30, retryAfter: 6 },
+        network: { maxRetries: 10, inRunRetries: 3, backoff: 10, retryAfter: 1 },
+        'disk-full': { maxRetries: 10, retryAfter: 1 },
+        ffmpeg: {},
+        unknown: {}
+    },
     concurrency: os.cpus().length,
+    downloadConcurrency: 3,
+    transcodeBuffer: 2,
+    profile: 'default',
+    profiles: {},
+    mediaType: 'video',
     videoFormat: {
+        container: 'mp4',
         codec: 'libx264',
         profile: 'baseline',
         level: '3.0',
         resolution: '1280:720',
+        scaling: 'pad',
         maxRate: '2M',
         bufSize: '2M',
         audioCodec: 'aac',
         audioBitrate: '192k'
+    },
+    audioFormat: {
+        format: 'mp3',
+        bitrateMode: 'cbr',
+        bitrate: '192k',
+        quality: 2
+    },
+    fileNames: {
+        template: '{title}',
+        ascii: true,
+        transliterate: true,
+        spaces: 'keep',
+        case: 'keep',
+        maxLength: 100
+    },
+    output: {
+        playlistFolders: true,
+        numberTracks: true,
+        singlesFolder: 'Singles',
+        duplicates: 'hardlink'
+    },
+    playlistFiles: {
+        enabled: true,
+        formats: ['m3u'],
+        encoding: 'latin1',
+        pathSeparator: '/',
+        lineEndings: 'crlf',
+        allTracksName: 'All tracks'
+    },
+    push: {
+        target: '',
+        compare: 'mtime',
+        verify: true
+    },
+    filesystem: {
+        maxFileSize: '4G',
+        maxFileNameLength: 255,
+        maxPathLength: 240,
+        maxFilesPerFolder: 0
+    },
+    prune: {
+        policy: 'report',
+        maxTracks: 10
+    },
+    loudness: {
+        enabled: false,
+        target: -16,
+        truePeak: -1.5,
+        range: 11
+    },
+    trim: {
+        silence: false
+    },
+    trims: {},
+    tags: {
+        enabled: true,
+        coverArt: true,
+        mapping: {
+            title: '{title}',
+            artist: '{artist|creator|uploader}',
+            album_artist: '{album_artist}',
+            album: '{album|playlist_title}',
+            date: '{year}',
+            track: '{track_number|playlist_index}',
+            genre: '{genre}',
+            comment: '{webpage_url}'
+        }
+    },
+    verify: {
+        enabled: true,
+        durationTolerance: 2,
+        decodeSeconds: 5
+    },
+    streamCopy: true
+};
+
+// Built-in head-unit presets. The "default" profile is made of the top-level mediaType/videoFormat/audioFormat keys
+const builtinProfiles: { [name: string]: ProfileConfig } = {
+    'baseline-480p': {
+        description: 'Older head units: 480p H.264 baseline, 128k audio',
+        mediaType: 'video',
+        videoFormat: {
+            profile: 'baseline',
+            level: '3.0',
+            resolution: '854:480',
+            maxFrameRate: 30,
+            maxRate: '1M',
+            bufSize: '1M',
+            audioBitrate: '128k',
+            audioSampleRate: 44100,
+            audioChannels: 2
+        }
+    },
+    'main-1080p': {
+        description: 'Newer head units: 1080p H.264 main profile',
+        mediaType: 'video',
+        videoFormat: {
+            profile: 'main',
+            level: '4.1',
+            resolution: '1920:1080',
+            maxFrameRate: 30,
+            maxRate: '6M',
+            bufSize: '6M',
+            audioBitrate: '192k'
+        }
+    },
+    'audio-mp3': {
+        description: 'Audio only: MP3 192k CBR',
+        mediaType: 'audio',
+        audioFormat: {
+            format: 'mp3',
+            bitrateMode: 'cbr',
+            bitrate: '192k',
+            sampleRate: 44100
+        }
+    },
+    'audio-m4a': {
+        description: 'Audio only: AAC 192k in M4A',
+        mediaType: 'audio',
+        audioFormat: {
+            format: 'm4a',
+            bitrateMode: 'cbr',
+            bitrate: '192k',
+            sampleRate: 44100
+        }
     }
 };
 
-// Directories for downloaded music and temporary files
-const downloadDirectory = path.join(__dirname, "/Downloaded");
-const tempDirectory = path.join(__dirname, "/Temp");
-const stateFile = path.join(__dirname, "/sync_state.json");
-// More flexible format selection to handle signature extraction issues
-const fallbackFormat = 'bestvideo[height<=1080]+bestaudio/best[height<=1080]/best';
+// Active configuration, replaced by loadConfig() at startup
+let config: SyncConfig = defaultConfig;
+
+// Directories for downloaded music and temporary files, next to the script unless SYNC_DATA_DIR points elsewhere
+const dataDirectory = process.env.SYNC_DATA_DIR ? path.resolve(process.env.SYNC_DATA_DIR) : __dirname;
+const downloadDirectory = path.join(dataDirectory, "/Downloaded");
+const tempDirectory = path.join(dataDirectory, "/Temp");
+const stateFile = path.join(dataDirectory, "/sync_state.json");
+const stateBackupFile = `${stateFile}.bak`;
+const archiveDirectory = path.join(dataDirectory, "/Archive");
+// Audio-only output doesn't need the video stream
+const audioOnlyFormat = 'bestaudio/best';
+// Audio sample rate of filtered tracks when the profile doesn't set one
+const defaultSampleRate = 48000;
+// Quieter than this for at least minSilence seconds counts as silence when trimming it
+const silenceThreshold = '-50dB';
+const minSilence = 1;
 // Additional yt-dlp parameters to help with signature extraction issues
 const ytdlpExtraParams = [
     '--no-check-certificates',  // Skip HTTPS certificate validation
@@ -139,371 +499,1645 @@ const ytdlpExtraParams = [
     '--no-check-formats'  // Don't check formats before downloading
 ];
 
-interface TrackState {
-    downloaded: boolean;
-    title?: string;
-    error?: string;
-    retries?: number;
-    lastAttempt?: string;
-    timestamp?: string;
+// Command-line options
+interface CliOptions {
+    command: string;
+    args: string[];
+    flags: {
+        [name: string]: string | boolean;
+    };
 }
 
-interface AppState {
-    tracks: {
-        [url: string]: TrackState;
-    };
-    stats: {
-        totalTracks: number;
-        completedTracks: number;
-        errorTracks: number;
+// Flags that take a value (e.g. --config <path>); all others are boolean switches
+const valueFlags = ['config', 'profile'];
+
+// Split argv into a command, its positional arguments and --flags
+function parseArgs(argv: string[]): CliOptions {
+    const positional: string[] = [];
+    const flags: CliOptions['flags'] = {};
+    
+    for (let i = 0; i < argv.length; i++) {
+        const arg = argv[i];
+        if (!arg.startsWith('--')) {
+            positional.push(arg);
+            continue;
+        }
+        const [name, inlineValue] = arg.substring(2).split(/=(.*)/s);
+        if (valueFlags.includes(name)) {
+            const value = inlineValue ?? argv[++i];
+            if (!value) {
+                throw new Error(`--${name} requires a value`);
+            }
+            flags[name] = value;
+        } else {
+            flags[name] = inlineValue ?? true;
+        }
+    }
+    
+    return {
+        command: positional[0] ?? 'sync',
+        args: positional.slice(1),
+        flags
     };
 }
 
-interface TrackInfo {
-    url: string;
-    title: string;
-    status: 'pending' | 'downloading' | 'transcoding' | 'completed' | 'error';
-    error?: string;
-    progress?: number;
-    size?: string;
-    eta?: string;
-    speed?: string;
-    process?: ReturnType<typeof spawn>;
-}
+let cliOptions: CliOptions = { command: 'sync', args: [], flags: {} };
 
-// Track all child processes
-const activeProcesses: Set<ReturnType<typeof spawn>> = new Set();
+// Config file locations, in lookup order. Overridable with --config <path> or SYNC_CONFIG
+const defaultConfigFiles = [
+    path.join(__dirname, "/sync.config.json"),
+    path.join(__dirname, "/sync.config.yaml"),
+    path.join(__dirname, "/sync.config.yml")
+];
 
+// Accepted values for ffmpeg settings in videoFormat
+const validVideoCodecs = ['libx264', 'libx265', 'libopenh264', 'h264_nvenc', 'h264_qsv', 'h264_vaapi', 'h264_videotoolbox', 'h264_amf'];
+const validAudioCodecs = ['aac', 'libfdk_aac', 'libmp3lame'];
+const validProfiles = ['baseline', 'main', 'high'];
+const validContainers = ['mp4', 'mkv'];
+const validScalings = ['fit', 'pad', 'stretch'];
+const videoFormatKeys = ['container', 'codec', 'profile', 'level', 'resolution', 'scaling', 'maxFrameRate', 'maxRate', 'bufSize', 'audioCodec', 'audioBitrate', 'audioSampleRate', 'audioChannels'];
+const audioFormatKeys = ['format', 'bitrateMode', 'bitrate', 'quality', 'sampleRate', 'channels'];
+const validSampleRates = [22050, 32000, 44100, 48000];
+const validDuplicateModes = ['hardlink', 'copy', 'single'];
+const validPlaylistFormats = ['m3u', 'm3u8', 'pls'];
+const validSplitModes = ['chapters', 'description', 'auto'];
+const trimKeys = ['start', 'end', 'cut', 'silence'];
+const tagNamePattern = /^[a-z][a-z0-9_]*$/i;
+const templateFieldPattern = /^[a-z0-9_]+$/i;
+const validMediaTypes = ['video', 'audio'];
+const validAudioFormats = ['mp3', 'm4a'];
+const validBitrateModes = ['cbr', 'vbr'];
+const validLevels = ['1.0', '1b', '1.1', '1.2', '1.3', '2.0', '2.1', '2.2', '3.0', '3.1', '3.2', '4.0', '4.1', '4.2', '5.0', '5.1', '5.2'];
+const bitratePattern = /^\d+(\.\d+)?[kKmM]?$/;
+const sizePattern = /^(\d+(?:\.\d+)?)([kKmMgG]?)$/;
+const resolutionPattern = /^(-1|-2|\d+):(-1|-2|\d+)$/;
 
-let appState: AppState = {
-    tracks: {},
-    stats: {
-        totalTracks: 0,
-        completedTracks: 0,
-        errorTracks: 0
+// Resolve which config file to load, if any
+function getConfigPath(): string | undefined {
+    if (typeof cliOptions.flags.config === 'string') {
+        return path.resolve(cliOptions.flags.config);
     }
-};
-
-// Check terminal size
-function checkTerminalSize() {
-    const minRows = 24;
-    const minCols = 80;
-    
-    if (process.stdout.rows < minRows || process.stdout.columns < minCols) {
-        console.warn(`\n⚠️  WARNING: Terminal size too small (${process.stdout.columns}x${process.stdout.rows})`);
-        console.warn(`   Recommended minimum: ${minCols}x${minRows}`);
-        console.warn(`   The UI may not display correctly.\n`);
-        return false;
+    if (process.env.SYNC_CONFIG) {
+        return path.resolve(process.env.SYNC_CONFIG);
     }
-    return true;
+    return defaultConfigFiles.find(file => fs.existsSync(file));
 }
 
-// Initialize blessed screen
-const screen = blessed.screen({
-    smartCSR: true,
-    title: 'YouTube Music Downloader for Car Multimedia',
-    debug: false, // Set to false for production
-    fullUnicode: true,
-    autoPadding: true,
-    forceUnicode: true,
-    fastCSR: true,
-    resizeTimeout: 300
-});
-
-// Initial render to ensure screen is working
-try {
-    checkTerminalSize();
-    screen.render();
-    console.log('Initial screen render successful');
-} catch (error) {
-    console.error('Error during initial screen render:', error);
+// Parse a JSON or YAML config file depending on its extension
+function parseConfigFile(configPath: string): any {
+    const text = fs.readFileSync(configPath, 'utf8');
+    const ext = path.extname(configPath).toLowerCase();
+    if (ext === '.yaml' || ext === '.yml') {
+        let yaml: any;
+        try {
+            yaml = require('yaml');
+        } catch (error) {
+            throw new Error('YAML config files need the yaml package. Please install it using: yarn add yaml');
+        }
+        return yaml.parse(text);
+    }
+    return JSON.parse(text);
 }
 
-// Handle terminal resize
-screen.on('resize', () => {
-    checkTerminalSize();
+function isValidUrl(value: string): boolean {
     try {
-        // Reflow the log box content on resize
-        logBox.setContent('');
-        for (const line of logBuffer.slice(-50)) { // Show last 50 lines on resize
-            logBox.pushLine(line);
-        }
-        screen.render();
+        const url = new URL(value);
+        return url.protocol === 'http:' || url.protocol === 'https:';
     } catch (error) {
-        console.error('Error rendering after resize:', error);
-    }
-});
-
-// Create header
-const headerBox = blessed.box({
-    parent: screen,
-    top: 0,
-    left: 0,
-    width: '100%',
-    height: 3,
-    content: chalk.bold.cyan(' 🎵 YouTube Music Downloader for Car Multimedia 🚗'),
-    border: 'line',
-    style: {
-        border: {
-            fg: 'cyan'
-        }
-    }
-});
-
-// Create main progress bar
-const progressBar = blessed.progressbar({
-    parent: screen,
-    top: 3,
-    left: 0,
-    width: '100%',
-    height: 3,
-    border: 'line',
-    style: {
-        fg: 'blue',
-        bg: 'default',
-        border: {
-            fg: 'cyan'
-        },
-        bar: {
-            bg: 'blue'
-        }
-    },
-    filled: 0
-});
-
-// Create active downloads box
-const activeBox = blessed.box({
-    parent: screen,
-    top: 6,
-    left: 0,
-    width: '100%',
-    height: 10, // Increase height to show more active downloads
-    border: 'line',
-    content: 'Active Downloads:',
-    tags: true,
-    scrollable: true,
-    alwaysScroll: true,
-    scrollbar: {
-        ch: ' ',
-        track: {
-            bg: 'cyan'
-        },
-        style: {
-            inverse: true
+        return false;
+    }
+}
+
+function checkUnknownKeys(value: any, allowed: string[], prefix: string, errors: string[]) {
+    for (const key of Object.keys(value)) {
+        if (!allowed.includes(key)) {
+            errors.push(`${prefix}${key}: unknown key (allowed: ${allowed.join(', ')})`);
         }
-    },
-    style: {
-        border: {
-            fg: 'cyan'
-        }
-    }
-});
-
-// Create status box
-const statusBox = blessed.box({
-    parent: screen,
-    top: 16, // Adjust top position based on new activeBox height
-    left: 0,
-    width: '100%',
-    height: 3,
-    border: 'line',
-    content: 'Ready to start...',
-    style: {
-        border: {
-            fg: 'cyan'
-        }
-    }
-});
-
-// Create log box
-const logBox = blessed.log({
-    parent: screen,
-    top: 19, // Adjust top position based on new statusBox position
-    bottom: 0,
-    left: 0,
-    width: '100%',
-    height: 'shrink', // Use shrink to fit between top and bottom
-    border: 'line',
-    scrollable: true,
-    mouse: true,
-    keys: true,
-    vi: true,
-    alwaysScroll: true,
-    tags: true,
-    scrollbar: {
-        ch: ' ',
-        track: {
-            bg: 'cyan'
-        },
-        style: {
-            inverse: true
+    }
+}
+
+function validateSourceList(value: any, key: string, profileNames: string[], errors: string[], requirePlaylist = false) {
+    if (!Array.isArray(value)) {
+        errors.push(`${key}: expected an array of URLs or source objects`);
+        return;
+    }
+    value.forEach((entry: any, index: number) => {
+        const prefix = `${key}[${index}]`;
+        let url = entry;
+        if (typeof entry === 'object' && entry !== null && !Array.isArray(entry)) {
+            checkUnknownKeys(entry, ['url', 'profile', 'mediaType', 'videoFormat', 'audioFormat', 'fileNames', 'split', 'trim'], `${prefix}.`, errors);
+            if (entry.profile !== undefined) validateProfileName(entry.profile, `${prefix}.profile`, profileNames, errors);
+            if (entry.mediaType !== undefined) validateMediaType(entry.mediaType, `${prefix}.mediaType`, errors);
+            if (entry.videoFormat !== undefined) validateVideoFormat(entry.videoFormat, `${prefix}.videoFormat`, errors);
+            if (entry.audioFormat !== undefined) validateAudioFormat(entry.audioFormat, `${prefix}.audioFormat`, errors);
+            if (entry.fileNames !== undefined) validateFileNames(entry.fileNames, `${prefix}.fileNames`, errors);
+            if (entry.split !== undefined) validateSplit(entry.split, `${prefix}.split`, requirePlaylist, errors);
+            if (entry.trim !== undefined) validateTrim(entry.trim, `${prefix}.trim`, errors);
+            url = entry.url;
         }
-    },
-    style: {
-        border: {
-            fg: 'cyan'
+        if (typeof url !== 'string' || !isValidUrl(url)) {
+            errors.push(`${prefix}: invalid URL ${JSON.stringify(url)}`);
+        } else if (requirePlaylist && !new URL(url).searchParams.has('list')) {
+            errors.push(`${prefix}: playlist URL has no "list" parameter: ${url}`);
         }
-    },
-    // Limit the number of lines to prevent memory issues
-    scrollback: LOG_BUFFER_SIZE
-});
-
+    });
+}
 
+function validateSplit(value: any, key: string, isPlaylist: boolean, errors: string[]) {
+    const isCueFile = typeof value === 'string' && value.toLowerCase().endsWith('.cue');
+    if (!validSplitModes.includes(value) && !isCueFile) {
+        errors.push(`${key}: invalid value ${JSON.stringify(value)} (one of ${validSplitModes.join(', ')}, or the path of a .cue file)`);
+    } else if (isCueFile && isPlaylist) {
+        errors.push(`${key}: a cue sheet describes a single video and can't be used for a playlist`);
+    }
+}
 
-// Load state from file
-if (fs.existsSync(stateFile)) {
-    try {
-        appState = fs.readJsonSync(stateFile);
-        log(chalk.green(`✓ Loaded state with ${Object.keys(appState.tracks).length} track entries`));
-    } catch (error) {
-        log(chalk.red(`Error loading state file: ${error}`));
-        appState = {
-            tracks: {},
-            stats: {
-                totalTracks: 0,
-                completedTracks: 0,
-                errorTracks: 0
-            }
-        };
+// Parse a trim time: seconds, or "m:ss"/"h:mm:ss" with an optional "-" in front; NaN when invalid
+function parseTrimTime(value: number | string): number {
+    if (typeof value === 'number') {
+        return value;
     }
+    const match = String(value).trim().match(/^(-?)((?:\d+:){0,2}\d+(?:\.\d+)?)$/);
+    if (!match) {
+        return NaN;
+    }
+    const seconds = match[2].split(':').reduce((total, part) => total * 60 + parseFloat(part), 0);
+    return match[1] ? -seconds : seconds;
 }
 
-// Safe render function
-function safeRender() {
-    try {
-        // Throttle renders to avoid overwhelming the terminal
-        const now = Date.now();
-        if (now - lastScreenRender >= RENDER_THROTTLE_MS) {
-            screen.render();
-            lastScreenRender = now;
-            uiNeedsUpdate = false;
+// Parse a cut range like "2:10-2:35"; undefined when invalid
+function parseCutRange(range: string): [number, number] | undefined {
+    const match = typeof range === 'string' ? range.match(/^\s*([\d:.]+)\s*-\s*([\d:.]+)\s*$/) : null;
+    const from = match ? parseTrimTime(match[1]) : NaN;
+    const to = match ? parseTrimTime(match[2]) : NaN;
+    return from >= 0 && to > from ? [from, to] : undefined;
+}
+
+function validateTrim(value: any, key: string, errors: string[]) {
+    if (typeof value !== 'object' || value === null || Array.isArray(value)) {
+        errors.push(`${key}: expected an object`);
+        return;
+    }
+    checkUnknownKeys(value, trimKeys, `${key}.`, errors);
+    const start = value.start !== undefined ? parseTrimTime(value.start) : 0;
+    const end = value.end !== undefined ? parseTrimTime(value.end) : undefined;
+    if (!(start >= 0)) {
+        errors.push(`${key}.start: expected seconds or a time like "0:45", got ${JSON.stringify(value.start)}`);
+    }
+    if (end !== undefined && Number.isNaN(end)) {
+        errors.push(`${key}.end: expected seconds or a time like "3:20" (negative counts from the end), got ${JSON.stringify(value.end)}`);
+    } else if (end !== undefined && end >= 0 && end <= start) {
+        errors.push(`${key}.end: must be after start`);
+    }
+    if (value.cut !== undefined) {
+        if (!Array.isArray(value.cut)) {
+            errors.push(`${key}.cut: expected an array of ranges like "2:10-2:35"`);
         } else {
-            // If we can't render now, mark for update later
-            uiNeedsUpdate = true;
+            value.cut.filter((range: any) => !parseCutRange(range)).forEach((range: any) => {
+                errors.push(`${key}.cut: invalid range ${JSON.stringify(range)} (use e.g. "2:10-2:35")`);
+            });
         }
-    } catch (error) {
-        console.error('Error rendering screen:', error);
+    }
+    if (value.silence !== undefined && typeof value.silence !== 'boolean') {
+        errors.push(`${key}.silence: expected true or false, got ${JSON.stringify(value.silence)}`);
     }
 }
 
-// Set up periodic render for throttled updates
-setInterval(() => {
-    if (uiNeedsUpdate) {
-        try {
-            screen.render();
-            lastScreenRender = Date.now();
-            uiNeedsUpdate = false;
-        } catch (error) {
-            console.error('Error in periodic render:', error);
-        }
+function validateMediaType(value: any, key: string, errors: string[]) {
+    if (!validMediaTypes.includes(value)) {
+        errors.push(`${key}: invalid value ${JSON.stringify(value)} (one of ${validMediaTypes.join(', ')})`);
     }
-}, RENDER_THROTTLE_MS);
-
+}
 
-// UI update functions
-function updateStatus() {
-    const { totalTracks, completedTracks, errorTracks } = appState.stats;
-    const progress = totalTracks > 0 ? (completedTracks / totalTracks) * 100 : 0;
-    progressBar.setProgress(progress);
-    
-    const statusContent = [
-        chalk.cyan(`Total: ${chalk.bold(totalTracks.toString())}`),
-        chalk.green(`Completed: ${chalk.bold(completedTracks.toString())}`),
-        chalk.red(`Errors: ${chalk.bold(errorTracks.toString())}`),
-        chalk.yellow(`Remaining: ${chalk.bold((totalTracks - completedTracks - errorTracks).toString())}`)
-    ].join(' | ');
+function validateAudioFormat(value: any, key: string, errors: string[]) {
+    if (typeof value !== 'object' || value === null || Array.isArray(value)) {
+        errors.push(`${key}: expected an object`);
+        return;
+    }
+    checkUnknownKeys(value, audioFormatKeys, `${key}.`, errors);
     
-    statusBox.setContent(statusContent);
-    safeRender();
+    if (value.format !== undefined && !validAudioFormats.includes(value.format)) {
+        errors.push(`${key}.format: invalid value ${JSON.stringify(value.format)} (one of ${validAudioFormats.join(', ')})`);
+    }
+    if (value.bitrateMode !== undefined && !validBitrateModes.includes(value.bitrateMode)) {
+        errors.push(`${key}.bitrateMode: invalid value ${JSON.stringify(value.bitrateMode)} (one of ${validBitrateModes.join(', ')})`);
+    }
+    if (value.bitrate !== undefined && (typeof value.bitrate !== 'string' || !bitratePattern.test(value.bitrate))) {
+        errors.push(`${key}.bitrate: invalid value ${JSON.stringify(value.bitrate)} (a bitrate such as 192k)`);
+    }
+    if (value.quality !== undefined && (!Number.isInteger(value.quality) || value.quality < 0 || value.quality > 9)) {
+        errors.push(`${key}.quality: invalid value ${JSON.stringify(value.quality)} (an integer from 0 to 9)`);
+    }
+    if (value.sampleRate !== undefined && !validSampleRates.includes(value.sampleRate)) {
+        errors.push(`${key}.sampleRate: invalid value ${JSON.stringify(value.sampleRate)} (one of ${validSampleRates.join(', ')})`);
+    }
+    if (value.channels !== undefined && value.channels !== 1 && value.channels !== 2) {
+        errors.push(`${key}.channels: invalid value ${JSON.stringify(value.channels)} (1 or 2)`);
+    }
+    if (value.format === 'm4a' && value.bitrateMode === 'vbr') {
+        errors.push(`${key}.bitrateMode: vbr is only supported for mp3, use cbr with m4a`);
+    }
 }
 
-// Throttled version of updateActiveDownloads to prevent too many renders
-const updateActiveDownloads = throttle((activeDownloads: Map<string, TrackInfo>) => {
-    // Clear the box first to prevent artifacts
-    activeBox.setContent('');
-    
-    // Add the header
-    activeBox.pushLine(chalk.cyan.bold('Active Downloads:'));
-    
-    if (activeDownloads.size === 0) {
-        activeBox.pushLine('  No active downloads');
-    } else {
-        // Define fixed widths for each column
-        const titleWidth = 160;
-        const statusWidth = 15;
-        const progressWidth = 10;
-        const sizeWidth = 15;
-        const speedWidth = 15;
-        const etaWidth = 12;
-        
-        activeDownloads.forEach((info, url) => {
-            const title = info.title || url;
-            const displayTitle = title.length > titleWidth 
-                ? title.substring(0, titleWidth - 3) + '...' 
-                : title.padEnd(titleWidth);
-                
-            // Format status with consistent width
-            let statusText = '';
-            if (info.status === 'downloading') {
-                statusText = chalk.yellow('⬇️ Downloading');
-            } else if (info.status === 'transcoding') {
-                statusText = chalk.blue('🔄 Transcoding');
-            } else {
-                statusText = chalk.green('✓ ' + info.status);
-            }
-            const status = statusText.padEnd(statusWidth);
-            
-            // Format other fields with consistent width
-            const progress = info.progress 
-                ? `${info.progress.toFixed(1)}%`.padEnd(progressWidth) 
-                : ''.padEnd(progressWidth);
-                
-            const size = info.size 
-                ? info.size.padEnd(sizeWidth) 
-                : ''.padEnd(sizeWidth);
-                
-            const speed = info.speed 
-                ? info.speed.padEnd(speedWidth) 
-                : ''.padEnd(speedWidth);
-                
-            const eta = info.eta 
-                ? `ETA: ${info.eta}`.padEnd(etaWidth) 
-                : ''.padEnd(etaWidth);
-            
-            // Combine all parts with proper spacing
-            const line = `  ${chalk.white(displayTitle)} ${status} ${progress} ${size} ${speed} ${eta}`;
-            activeBox.pushLine(line);
-        });
+function validateInteger(value: any, key: string, min: number, errors: string[]) {
+    if (!Number.isInteger(value) || value < min) {
+        errors.push(`${key}: expected an integer >= ${min}, got ${JSON.stringify(value)}`);
     }
-    
-    safeRender();
-}, RENDER_THROTTLE_MS);
+}
 
+function validateVideoFormat(value: any, key: string, errors: string[]) {
+    if (typeof value !== 'object' || value === null || Array.isArray(value)) {
+        errors.push(`${key}: expected an object`);
+        return;
+    }
+    checkUnknownKeys(value, videoFormatKeys, `${key}.`, errors);
 
-function sanitizeFilename(filename: string): string {
-    // More comprehensive sanitization for better file naming
-    return filename
-        // Remove quotes
-        .replace(/['"]+/g, '')
-        // Replace invalid file characters with hyphens
-        .replace(/[\\/:"*?<>|]+/g, '-')
-        // Replace accented characters with simple ASCII equivalents
-        .normalize('NFD')
-        .replace(/[\u0300-\u036f]/g, '')
-        // Replace other non-ASCII characters with hyphens
-        .replace(/[^\x00-\x7F]/g, '-')
-        // Replace multiple hyphens with single
-        .replace(/--+/g, '-')
-        // Remove leading/trailing hyphens
-        .replace(/^-|-$/g, '')
-        // Limit filename length
-        .substring(0, 100);
+    const checkString = (field: string, valid: (v: string) => boolean, hint: string) => {
+        if (value[field] === undefined) return;
+        if (typeof value[field] !== 'string' || !valid(value[field])) {
+            errors.push(`${key}.${field}: invalid value ${JSON.stringify(value[field])} (${hint})`);
+        }
+    };
+    checkString('container', v => validContainers.includes(v), `one of ${validContainers.join(', ')}`);
+    checkString('codec', v => validVideoCodecs.includes(v), `one of ${validVideoCodecs.join(', ')}`);
+    checkString('profile', v => validProfiles.includes(v), `one of ${validProfiles.join(', ')}`);
+    checkString('level', v => validLevels.includes(v), `one of ${validLevels.join(', ')}`);
+    checkString('resolution', v => resolutionPattern.test(v), 'WIDTH:HEIGHT, e.g. 1280:720');
+    checkString('scaling', v => validScalings.includes(v), `one of ${validScalings.join(', ')}`);
+    checkString('maxRate', v => bitratePattern.test(v), 'a bitrate such as 2M or 1500k');
+    checkString('bufSize', v => bitratePattern.test(v), 'a bitrate such as 2M or 1500k');
+    checkString('audioCodec', v => validAudioCodecs.includes(v), `one of ${validAudioCodecs.join(', ')}`);
+    checkString('audioBitrate', v => bitratePattern.test(v), 'a bitrate such as 192k');
+    
+    if (value.maxFrameRate !== undefined && (typeof value.maxFrameRate !== 'number' || value.maxFrameRate <= 0 || value.maxFrameRate > 120)) {
+        errors.push(`${key}.maxFrameRate: invalid value ${JSON.stringify(value.maxFrameRate)} (a number of frames per second up to 120)`);
+    }
+    if (value.audioSampleRate !== undefined && !validSampleRates.includes(value.audioSampleRate)) {
+        errors.push(`${key}.audioSampleRate: invalid value ${JSON.stringify(value.audioSampleRate)} (one of ${validSampleRates.join(', ')})`);
+    }
+    if (value.audioChannels !== undefined && value.audioChannels !== 1 && value.audioChannels !== 2) {
+        errors.push(`${key}.audioChannels: invalid value ${JSON.stringify(value.audioChannels)} (1 or 2)`);
+    }
+}
+
+function validateProfileName(value: any, key: string, profileNames: string[], errors: string[]) {
+    if (typeof value !== 'string' || !profileNames.includes(value)) {
+        errors.push(`${key}: unknown profile ${JSON.stringify(value)} (available: ${profileNames.join(', ')})`);
+    }
+}
+
+function validateProfiles(value: any, profileNames: string[], errors: string[]) {
+    if (typeof value !== 'object' || value === null || Array.isArray(value)) {
+        errors.push('profiles: expected an object of named profiles');
+        return;
+    }
+    for (const [name, profile] of Object.entries<any>(value)) {
+        const key = `profiles.${name}`;
+        if (name === 'default' || builtinProfiles[name]) {
+            errors.push(`${key}: conflicts with the built-in profile of the same name, use "extends" instead`);
+            continue;
+        }
+        if (typeof profile !== 'object' || profile === null || Array.isArray(profile)) {
+            errors.push(`${key}: expected an object`);
+            continue;
+        }
+        checkUnknownKeys(profile, ['description', 'extends', 'mediaType', 'videoFormat', 'audioFormat', 'fileNames'], `${key}.`, errors);
+        if (profile.extends !== undefined) validateProfileName(profile.extends, `${key}.extends`, profileNames, errors);
+        if (profile.mediaType !== undefined) validateMediaType(profile.mediaType, `${key}.mediaType`, errors);
+        if (profile.videoFormat !== undefined) validateVideoFormat(profile.videoFormat, `${key}.videoFormat`, errors);
+        if (profile.audioFormat !== undefined) validateAudioFormat(profile.audioFormat, `${key}.audioFormat`, errors);
+        if (profile.fileNames !== undefined) validateFileNames(profile.fileNames, `${key}.fileNames`, errors);
+        
+        // Follow the extends chain to catch cycles
+        const chain = [name];
+        let parent = profile.extends;
+        while (typeof parent === 'string' && value[parent] && !chain.includes(parent)) {
+            chain.push(parent);
+            parent = value[parent].extends;
+        }
+        if (typeof parent === 'string' && chain.includes(parent)) {
+            errors.push(`${key}.extends: circular profile inheritance (${[...chain, parent].join(' -> ')})`);
+        }
+    }
+}
+
+function validateFileNames(value: any, key: string, errors: string[]) {
+    if (typeof value !== 'object' || value === null || Array.isArray(value)) {
+        errors.push(`${key}: expected an object`);
+        return;
+    }
+    checkUnknownKeys(value, Object.keys(defaultConfig.fileNames), `${key}.`, errors);
+    if (value.template !== undefined) {
+        validateTemplate(value.template, `${key}.template`, errors);
+        if (typeof value.template === 'string' && !value.template.includes('{')) {
+            errors.push(`${key}.template: needs at least one field, e.g. "{title}"`);
+        }
+    }
+    for (const flag of ['ascii', 'transliterate']) {
+        if (value[flag] !== undefined && typeof value[flag] !== 'boolean') {
+            errors.push(`${key}.${flag}: expected true or false, got ${JSON.stringify(value[flag])}`);
+        }
+    }
+    if (value.spaces !== undefined && !['keep', 'underscore'].includes(value.spaces)) {
+        errors.push(`${key}.spaces: invalid value ${JSON.stringify(value.spaces)} (one of "keep", "underscore")`);
+    }
+    if (value.case !== undefined && !['keep', 'lower', 'upper'].includes(value.case)) {
+        errors.push(`${key}.case: invalid value ${JSON.stringify(value.case)} (one of "keep", "lower", "upper")`);
+    }
+    if (value.maxLength !== undefined) validateInteger(value.maxLength, `${key}.maxLength`, 1, errors);
+}
+
+function validateOutput(value: any, errors: string[]) {
+    if (typeof value !== 'object' || value === null || Array.isArray(value)) {
+        errors.push('output: expected an object');
+        return;
+    }
+    checkUnknownKeys(value, Object.keys(defaultConfig.output), 'output.', errors);
+    for (const key of ['playlistFolders', 'numberTracks']) {
+        if (value[key] !== undefined && typeof value[key] !== 'boolean') {
+            errors.push(`output.${key}: expected true or false, got ${JSON.stringify(value[key])}`);
+        }
+    }
+    if (value.singlesFolder !== undefined) {
+        const folder = value.singlesFolder;
+        if (typeof folder !== 'string' || path.isAbsolute(folder) || folder.split(/[\\/]/).includes('..')) {
+            errors.push(`output.singlesFolder: expected a folder name inside the download directory, got ${JSON.stringify(folder)}`);
+        }
+    }
+    if (value.duplicates !== undefined && !validDuplicateModes.includes(value.duplicates)) {
+        errors.push(`output.duplicates: invalid value ${JSON.stringify(value.duplicates)} (one of ${validDuplicateModes.join(', ')})`);
+    }
+}
+
+function validatePlaylistFiles(value: any, errors: string[]) {
+    if (typeof value !== 'object' || value === null || Array.isArray(value)) {
+        errors.push('playlistFiles: expected an object');
+        return;
+    }
+    checkUnknownKeys(value, Object.keys(defaultConfig.playlistFiles), 'playlistFiles.', errors);
+    if (value.enabled !== undefined && typeof value.enabled !== 'boolean') {
+        errors.push(`playlistFiles.enabled: expected true or false, got ${JSON.stringify(value.enabled)}`);
+    }
+    if (value.formats !== undefined && (!Array.isArray(value.formats) || value.formats.some((format: any) => !validPlaylistFormats.includes(format)))) {
+        errors.push(`playlistFiles.formats: expected a list of ${validPlaylistFormats.join(', ')}, got ${JSON.stringify(value.formats)}`);
+    }
+    const checkChoice = (key: string, choices: string[]) => {
+        if (value[key] !== undefined && !choices.includes(value[key])) {
+            errors.push(`playlistFiles.${key}: invalid value ${JSON.stringify(value[key])} (one of ${choices.map(choice => JSON.stringify(choice)).join(', ')})`);
+        }
+    };
+    checkChoice('encoding', ['latin1', 'utf8']);
+    checkChoice('pathSeparator', ['/', '\\']);
+    checkChoice('lineEndings', ['crlf', 'lf']);
+    if (value.allTracksName !== undefined && typeof value.allTracksName !== 'string') {
+        errors.push(`playlistFiles.allTracksName: expected a string, got ${JSON.stringify(value.allTracksName)}`);
+    }
+}
+
+function validatePush(value: any, errors: string[]) {
+    if (typeof value !== 'object' || value === null || Array.isArray(value)) {
+        errors.push('push: expected an object');
+        return;
+    }
+    checkUnknownKeys(value, Object.keys(defaultConfig.push), 'push.', errors);
+    if (value.target !== undefined && typeof value.target !== 'string') {
+        errors.push(`push.target: expected a directory path, got ${JSON.stringify(value.target)}`);
+    }
+    if (value.compare !== undefined && !['mtime', 'hash'].includes(value.compare)) {
+        errors.push(`push.compare: invalid value ${JSON.stringify(value.compare)} (one of "mtime", "hash")`);
+    }
+    if (value.verify !== undefined && typeof value.verify !== 'boolean') {
+        errors.push(`push.verify: expected true or false, got ${JSON.stringify(value.verify)}`);
+    }
+}
+
+function validateFilesystem(value: any, errors: string[]) {
+    if (typeof value !== 'object' || value === null || Array.isArray(value)) {
+        errors.push('filesystem: expected an object');
+        return;
+    }
+    checkUnknownKeys(value, Object.keys(defaultConfig.filesystem), 'filesystem.', errors);
+    if (value.maxFileSize !== undefined && (typeof value.maxFileSize !== 'string' || (value.maxFileSize !== '' && !sizePattern.test(value.maxFileSize)))) {
+        errors.push(`filesystem.maxFileSize: expected a size like "4G" or "700M", or "" for no limit, got ${JSON.stringify(value.maxFileSize)}`);
+    }
+    for (const key of ['maxFileNameLength', 'maxPathLength', 'maxFilesPerFolder']) {
+        if (value[key] !== undefined) validateInteger(value[key], `filesystem.${key}`, 0, errors);
+    }
+}
+
+function validatePrune(value: any, errors: string[]) {
+    if (typeof value !== 'object' || value === null || Array.isArray(value)) {
+        errors.push('prune: expected an object');
+        return;
+    }
+    checkUnknownKeys(value, Object.keys(defaultConfig.prune), 'prune.', errors);
+    if (value.policy !== undefined && !['report', 'archive', 'delete'].includes(value.policy)) {
+        errors.push(`prune.policy: invalid value ${JSON.stringify(value.policy)} (one of "report", "archive", "delete")`);
+    }
+    if (value.maxTracks !== undefined) validateInteger(value.maxTracks, 'prune.maxTracks', 0, errors);
+}
+
+function validateLoudness(value: any, errors: string[]) {
+    if (typeof value !== 'object' || value === null || Array.isArray(value)) {
+        errors.push('loudness: expected an object');
+        return;
+    }
+    checkUnknownKeys(value, Object.keys(defaultConfig.loudness), 'loudness.', errors);
+    if (value.enabled !== undefined && typeof value.enabled !== 'boolean') {
+        errors.push(`loudness.enabled: expected true or false, got ${JSON.stringify(value.enabled)}`);
+    }
+    // Ranges accepted by ffmpeg's loudnorm filter
+    const ranges: { [key: string]: [number, number] } = { target: [-70, -5], truePeak: [-9, 0], range: [1, 50] };
+    for (const [key, [min, max]] of Object.entries(ranges)) {
+        if (value[key] !== undefined && (typeof value[key] !== 'number' || value[key] < min || value[key] > max)) {
+            errors.push(`loudness.${key}: expected a number from ${min} to ${max}, got ${JSON.stringify(value[key])}`);
+        }
+    }
+}
+
+function validateVerify(value: any, errors: string[]) {
+    if (typeof value !== 'object' || value === null || Array.isArray(value)) {
+        errors.push('verify: expected an object');
+        return;
+    }
+    checkUnknownKeys(value, Object.keys(defaultConfig.verify), 'verify.', errors);
+    if (value.enabled !== undefined && typeof value.enabled !== 'boolean') {
+        errors.push(`verify.enabled: expected true or false, got ${JSON.stringify(value.enabled)}`);
+    }
+    for (const key of ['durationTolerance', 'decodeSeconds']) {
+        if (value[key] !== undefined && (typeof value[key] !== 'number' || value[key] < 0)) {
+            errors.push(`verify.${key}: expected a number of seconds (0 or more), got ${JSON.stringify(value[key])}`);
+        }
+    }
+}
+
+function validateRetryPolicies(value: any, errors: string[]) {
+    if (typeof value !== 'object' || value === null || Array.isArray(value)) {
+        errors.push('retryPolicies: expected an object of error class -> retry policy');
+        return;
+    }
+    checkUnknownKeys(value, errorCodes, 'retryPolicies.', errors);
+    for (const [code, policy] of Object.entries<any>(value)) {
+        const key = `retryPolicies.${code}`;
+        if (typeof policy !== 'object' || policy === null || Array.isArray(policy)) {
+            errors.push(`${key}: expected an object`);
+            continue;
+        }
+        checkUnknownKeys(policy, ['maxRetries', 'inRunRetries', 'backoff', 'retryAfter'], `${key}.`, errors);
+        if (policy.maxRetries !== undefined) validateInteger(policy.maxRetries, `${key}.maxRetries`, 0, errors);
+        if (policy.inRunRetries !== undefined) validateInteger(policy.inRunRetries, `${key}.inRunRetries`, 0, errors);
+        for (const setting of ['backoff', 'retryAfter']) {
+            if (policy[setting] !== undefined && (typeof policy[setting] !== 'number' || policy[setting] < 0)) {
+                errors.push(`${key}.${setting}: expected a number (0 or more), got ${JSON.stringify(policy[setting])}`);
+            }
+        }
+    }
+}
+
+function validateTemplate(value: any, key: string, errors: string[]) {
+    if (typeof value !== 'string') {
+        errors.push(`${key}: expected a template string such as "{artist|uploader}"`);
+        return;
+    }
+    if (/\{[^}]*(\{|$)|(^|\})[^{]*\}/.test(value)) {
+        errors.push(`${key}: unbalanced braces in template ${JSON.stringify(value)}`);
+        return;
+    }
+    for (const [, expr] of value.matchAll(/\{([^{}]*)\}/g)) {
+        const [fields, format] = expr.split(':');
+        const bad = fields.split('|').map(field => field.trim()).find(field => !templateFieldPattern.test(field));
+        if (bad !== undefined) {
+            errors.push(`${key}: invalid field name ${JSON.stringify(bad)} in template ${JSON.stringify(value)}`);
+        }
+        if (format !== undefined && !/^0\d+$/.test(format)) {
+            errors.push(`${key}: invalid format ${JSON.stringify(format)} in template ${JSON.stringify(value)} (use e.g. "{playlist_index:02}")`);
+        }
+    }
+}
+
+function validateTags(value: any, errors: string[]) {
+    if (typeof value !== 'object' || value === null || Array.isArray(value)) {
+        errors.push('tags: expected an object');
+        return;
+    }
+    checkUnknownKeys(value, Object.keys(defaultConfig.tags), 'tags.', errors);
+    for (const key of ['enabled', 'coverArt']) {
+        if (value[key] !== undefined && typeof value[key] !== 'boolean') {
+            errors.push(`tags.${key}: expected true or false, got ${JSON.stringify(value[key])}`);
+        }
+    }
+    if (value.mapping !== undefined) {
+        if (typeof value.mapping !== 'object' || value.mapping === null || Array.isArray(value.mapping)) {
+            errors.push('tags.mapping: expected an object of tag name -> template');
+            return;
+        }
+        for (const [tag, template] of Object.entries(value.mapping)) {
+            if (!tagNamePattern.test(tag)) {
+                errors.push(`tags.mapping.${tag}: invalid tag name`);
+            }
+            validateTemplate(template, `tags.mapping.${tag}`, errors);
+        }
+    }
+}
+
+// Validate a raw config object, returning a list of human-readable errors
+function validateConfig(raw: any): string[] {
+    const errors: string[] = [];
+    if (typeof raw !== 'object' || raw === null || Array.isArray(raw)) {
+        return ['config must be an object'];
+    }
+    checkUnknownKeys(raw, Object.keys(defaultConfig), '', errors);
+    
+    const userProfiles = typeof raw.profiles === 'object' && raw.profiles !== null ? Object.keys(raw.profiles) : [];
+    const profileNames = ['default', ...Object.keys(builtinProfiles), ...userProfiles];
+
+    if (raw.playlistUrls !== undefined) validateSourceList(raw.playlistUrls, 'playlistUrls', profileNames, errors, true);
+    if (raw.videoUrls !== undefined) validateSourceList(raw.videoUrls, 'videoUrls', profileNames, errors);
+    if (raw.maxRetries !== undefined) validateInteger(raw.maxRetries, 'maxRetries', 0, errors);
+    if (raw.retryPolicies !== undefined) validateRetryPolicies(raw.retryPolicies, errors);
+    if (raw.concurrency !== undefined) validateInteger(raw.concurrency, 'concurrency', 1, errors);
+    if (raw.downloadConcurrency !== undefined) validateInteger(raw.downloadConcurrency, 'downloadConcurrency', 1, errors);
+    if (raw.transcodeBuffer !== undefined) validateInteger(raw.transcodeBuffer, 'transcodeBuffer', 0, errors);
+    if (raw.profile !== undefined) validateProfileName(raw.profile, 'profile', profileNames, errors);
+    if (raw.profiles !== undefined) validateProfiles(raw.profiles, profileNames, errors);
+    if (raw.mediaType !== undefined) validateMediaType(raw.mediaType, 'mediaType', errors);
+    if (raw.videoFormat !== undefined) validateVideoFormat(raw.videoFormat, 'videoFormat', errors);
+    if (raw.audioFormat !== undefined) validateAudioFormat(raw.audioFormat, 'audioFormat', errors);
+    if (raw.fileNames !== undefined) validateFileNames(raw.fileNames, 'fileNames', errors);
+    if (raw.output !== undefined) validateOutput(raw.output, errors);
+    if (raw.playlistFiles !== undefined) validatePlaylistFiles(raw.playlistFiles, errors);
+    if (raw.push !== undefined) validatePush(raw.push, errors);
+    if (raw.filesystem !== undefined) validateFilesystem(raw.filesystem, errors);
+    if (raw.prune !== undefined) validatePrune(raw.prune, errors);
+    if (raw.loudness !== undefined) validateLoudness(raw.loudness, errors);
+    if (raw.trim !== undefined) validateTrim(raw.trim, 'trim', errors);
+    if (raw.verify !== undefined) validateVerify(raw.verify, errors);
+    if (raw.streamCopy !== undefined && typeof raw.streamCopy !== 'boolean') {
+        errors.push(`streamCopy: expected true or false, got ${JSON.stringify(raw.streamCopy)}`);
+    }
+    if (raw.trims !== undefined) {
+        if (typeof raw.trims !== 'object' || raw.trims === null || Array.isArray(raw.trims)) {
+            errors.push('trims: expected an object of video URL -> trim settings');
+        } else {
+            for (const [url, trim] of Object.entries(raw.trims)) {
+                if (!isValidUrl(url)) {
+                    errors.push(`trims: invalid URL ${JSON.stringify(url)}`);
+                }
+                validateTrim(trim, `trims.${url}`, errors);
+            }
+        }
+    }
+    if (raw.tags !== undefined) validateTags(raw.tags, errors);
+
+    return errors;
+}
+
+// Normalize a config entry to a source object
+function toSourceConfig(entry: SourceEntry): SourceConfig {
+    return typeof entry === 'string' ? { url: entry } : entry;
+}
+
+// All selectable profile names
+function getProfileNames(): string[] {
+    return ['default', ...Object.keys(builtinProfiles), ...Object.keys(config.profiles)];
+}
+
+// Resolve a profile by name, applying its "extends" chain
+function resolveProfile(name: string, seen: string[] = []): DeviceProfile {
+    if (name === 'default') {
+        return {
+            description: 'Top-level mediaType/videoFormat/audioFormat/fileNames settings',
+            mediaType: config.mediaType,
+            videoFormat: config.videoFormat,
+            audioFormat: config.audioFormat,
+            fileNames: config.fileNames
+        };
+    }
+    const definition = config.profiles[name] ?? builtinProfiles[name];
+    if (!definition) {
+        throw new Error(`Unknown profile "${name}" (available: ${getProfileNames().join(', ')})`);
+    }
+    if (seen.includes(name)) {
+        throw new Error(`Circular profile inheritance: ${[...seen, name].join(' -> ')}`);
+    }
+    
+    const base = resolveProfile(definition.extends ?? 'default', [...seen, name]);
+    return {
+        description: definition.description,
+        mediaType: definition.mediaType ?? base.mediaType,
+        videoFormat: { ...base.videoFormat, ...definition.videoFormat },
+        audioFormat: { ...base.audioFormat, ...definition.audioFormat },
+        fileNames: { ...base.fileNames, ...definition.fileNames }
+    };
+}
+
+// Profile selected for this run: --profile overrides the config file's "profile" key
+function getRunProfileName(): string {
+    return typeof cliOptions.flags.profile === 'string' ? cliOptions.flags.profile : config.profile;
+}
+
+// Output settings for one source: its profile (or the run's) plus its own overrides
+interface OutputSettings extends DeviceProfile {
+    profileName: string;
+}
+
+function resolveOutputSettings(source: SourceConfig): OutputSettings {
+    const profileName = source.profile ?? getRunProfileName();
+    const profile = resolveProfile(profileName);
+    return {
+        profileName,
+        description: profile.description,
+        mediaType: source.mediaType ?? profile.mediaType,
+        videoFormat: { ...profile.videoFormat, ...source.videoFormat },
+        audioFormat: { ...profile.audioFormat, ...source.audioFormat },
+        fileNames: { ...profile.fileNames, ...source.fileNames }
+    };
+}
+
+// File extension of the output produced with the given settings
+function getOutputExtension(settings: OutputSettings): string {
+    return settings.mediaType === 'audio' ? `.${settings.audioFormat.format}` : `.${settings.videoFormat.container}`;
+}
+
+// One-line summary of a profile's output format
+function describeProfile(profile: DeviceProfile): string {
+    if (profile.mediaType === 'audio') {
+        const { format, bitrateMode, bitrate, quality, sampleRate, channels } = profile.audioFormat;
+        return [
+            `Audio only, ${format.toUpperCase()}`,
+            bitrateMode === 'vbr' && format === 'mp3' ? `VBR quality ${quality}` : `${bitrate} CBR`,
+            sampleRate ? `${sampleRate} Hz` : undefined,
+            channels ? `${channels} ch` : undefined
+        ].filter(Boolean).join(', ');
+    }
+    const { container, codec, profile: h264Profile, level, resolution, scaling, maxFrameRate, maxRate, audioCodec, audioBitrate } = profile.videoFormat;
+    return [
+        `${container.toUpperCase()} ${codec} ${h264Profile} ${level}`,
+        `${resolution} (${scaling})`,
+        maxFrameRate ? `max ${maxFrameRate} fps` : undefined,
+        `max ${maxRate}`,
+        `${audioCodec} ${audioBitrate}`
+    ].filter(Boolean).join(', ');
+}
+
+// Load the config file and merge it over the defaults
+function loadConfig(): SyncConfig {
+    const configPath = getConfigPath();
+    if (!configPath) {
+        return defaultConfig;
+    }
+    if (!fs.existsSync(configPath)) {
+        throw new Error(`Config file not found: ${configPath}`);
+    }
+
+    let raw: any;
+    try {
+        raw = parseConfigFile(configPath);
+    } catch (error) {
+        const errorMessage = error instanceof Error ? error.message : String(error);
+        throw new Error(`Failed to parse config file ${configPath}: ${errorMessage}`);
+    }
+
+    const errors = validateConfig(raw ?? {});
+    if (errors.length > 0) {
+        throw new Error(`Invalid config file ${configPath}:\n${errors.map(e => `  - ${e}`).join('\n')}`);
+    }
+
+    return {
+        ...defaultConfig,
+        ...raw,
+        videoFormat: { ...defaultConfig.videoFormat, ...raw?.videoFormat },
+        audioFormat: { ...defaultConfig.audioFormat, ...raw?.audioFormat },
+        fileNames: { ...defaultConfig.fileNames, ...raw?.fileNames },
+        profiles: { ...raw?.profiles },
+        output: { ...defaultConfig.output, ...raw?.output },
+        playlistFiles: { ...defaultConfig.playlistFiles, ...raw?.playlistFiles },
+        push: { ...defaultConfig.push, ...raw?.push },
+        filesystem: { ...defaultConfig.filesystem, ...raw?.filesystem },
+        prune: { ...defaultConfig.prune, ...raw?.prune },
+        retryPolicies: errorCodes.reduce((policies, code) => ({
+            ...policies,
+            [code]: { ...defaultConfig.retryPolicies[code], ...raw?.retryPolicies?.[code] }
+        }), {}),
+        loudness: { ...defaultConfig.loudness, ...raw?.loudness },
+        verify: { ...defaultConfig.verify, ...raw?.verify },
+        trim: { ...defaultConfig.trim, ...raw?.trim },
+        trims: { ...raw?.trims },
+        tags: {
+            ...defaultConfig.tags,
+            ...raw?.tags,
+            mapping: { ...defaultConfig.tags.mapping, ...raw?.tags?.mapping }
+        }
+    };
+}
+
+// yt-dlp fields kept in the state file; null for a field the templates use that the video doesn't have
+interface StoredMetadata {
+    [field: string]: string | number | boolean | string[] | null;
+}
+
+// Loudness of a track's source audio from loudnorm's first pass
+interface LoudnessMeasurement {
+    integrated: number; // LUFS
+    truePeak: number; // dBTP
+    range: number; // LU
+    threshold: number; // LUFS
+}
+
+// One track of a set that was split by its chapters
+interface ChapterState {
+    title: string;
+    artist?: string; // Performer from a cue sheet
+    start: number; // Seconds into the set
+    end?: number; // Undefined: until the end of the set
+    duration?: number; // Length of the track's file, after trimming
+    file: string; // Relative to the set's folder (TrackState.file)
+}
+
+// Silence at the ends of a track's source, from silencedetect
+interface SilenceState {
+    start: number; // Where the sound begins (0 without leading silence)
+    end?: number; // Where the trailing silence begins
+}
+
+// Output format a track's file was transcoded to: the profile with the source's overrides, for the verify command
+interface StoredOutputSettings {
+    mediaType: MediaType;
+    videoFormat?: VideoFormatConfig; // Only the format of the media type is kept
+    audioFormat?: AudioFormatConfig;
+}
+
+// Pipeline stages a track has completed, in order
+type PipelineStage = 'metadata' | 'downloaded' | 'transcoded' | 'finalized';
+
+// What an unfinished track left in the temp directory for the next sync to resume from
+interface ResumeState {
+    mediaType: MediaType; // What the download holds
+    output?: string; // Settings the outputs were transcoded with (see getOutputSetting)
+    outputs?: string[]; // Transcoded files, relative to the temp directory
+    chapters?: ChapterState[];
+    duration?: number; // Duration of the transcoded output
+}
+
+interface TrackState {
+    downloaded: boolean;
+    url?: string; // URL the track was gathered from; the state is keyed by getTrackKey()
+    title?: string;
+    file?: string; // Output path relative to the download directory
+    parts?: number; // Number of parts the output was split into to fit the filesystem
+    split?: string; // Split setting of the source when the track was transcoded
+    chapters?: ChapterState[]; // Tracks the set was split into; file is then the folder holding them
+    trim?: string; // Trim settings the file was transcoded with (JSON)
+    silence?: SilenceState; // Kept so a re-transcode doesn't detect it again
+    nameSuffix?: string; // " [<video id>]" added to the file name when another track had the same name
+    metadata?: StoredMetadata; // Short yt-dlp fields for file name templates
+    links?: string[]; // Extra copies/hardlinks (of every part) for other playlists listing the same track
+    profile?: string; // Device profile the file was transcoded with
+    output?: StoredOutputSettings; // Missing in entries from before it was recorded
+    duration?: number; // Seconds, from the yt-dlp metadata
+    loudness?: LoudnessMeasurement; // Kept so a re-transcode doesn't measure again
+    normalized?: string; // Loudness target the file was normalized to (see getLoudnessTarget)
+    error?: string;
+    errorCode?: ErrorCode; // Class of the last failure, which picks its retry policy
+    retries?: number;
+    lastAttempt?: string;
+    nextAttempt?: string; // Earliest time a later sync tries a failed track again
+    stage?: PipelineStage; // Last stage the track completed
+    resume?: ResumeState; // Set until the track is finalized
+    timestamp?: string;
+}
+
+interface AppState {
+    version?: number; // Layout version of the state file (see stateVersion), missing in files before versioning
+    tracks: {
+        [key: string]: TrackState;
+    };
+    playlistFiles?: string[]; // Playlist files written by the last sync, relative to the download directory
+    stats: {
+        totalTracks: number;
+        completedTracks: number;
+        errorTracks: number;
+    };
+}
+
+interface TrackInfo {
+    url: string;
+    title: string;
+    status: 'pending' | 'downloading' | 'queued' | 'measuring' | 'transcoding' | 'verifying' | 'completed' | 'error';
+    error?: string;
+    progress?: number;
+    size?: string;
+    eta?: string;
+    speed?: string;
+    process?: RunningProcess;
+}
+
+// A track scheduled for this run, with the source entry it was gathered from
+interface QueuedTrack {
+    url: string;
+    source: SourceConfig;
+    playlistTitle?: string;
+    playlistIndex?: number;
+    playlistSize?: number;
+    alsoIn?: QueuedTrack[]; // Other playlists listing the same track
+    videoIndex?: number; // Position in videoUrls, for spilling the singles folder into subfolders
+    videoCount?: number;
+}
+
+// Metadata read from yt-dlp's JSON output
+interface TrackMetadata {
+    title: string;
+    duration: number;
+    info: any; // Full yt-dlp JSON
+}
+
+// Container tags written into the output file
+interface TrackTags {
+    [tag: string]: string;
+}
+
+// What goes into one ffmpeg transcode besides the input and the output settings
+interface TranscodeOptions {
+    tags?: TrackTags;
+    coverPath?: string;
+    audioFilter?: string;
+    start?: number; // Seconds into the input, to transcode only a range of it
+    end?: number;
+    segments?: Segment[]; // Parts of that range to keep, relative to start
+    mode?: TranscodeMode; // Defaults to a full transcode
+}
+
+// How much of a source gets re-encoded: nothing (remux only), only the audio, or everything
+type TranscodeMode = 'copy' | 'audio' | 'full';
+
+// Container and streams of a media file as reported by ffprobe
+interface MediaProbe {
+    formats: string[]; // e.g. ["mov", "mp4", "m4a", ...] for MP4 and M4A files
+    duration?: number;
+    video?: {
+        codec: string;
+        profile?: string;
+        level?: number; // e.g. 30 for H.264 level 3.0
+        width: number;
+        height: number;
+        pixelFormat?: string;
+        sampleAspectRatio?: string;
+        frameRate?: number;
+        bitRate?: number;
+    };
+    audio?: {
+        codec: string;
+        profile?: string;
+        bitRate?: number;
+        sampleRate?: number;
+        channels?: number;
+    };
+}
+
+// A time range in seconds; the end may be Infinity (until the end of the source)
+type Segment = [number, number];
+
+// Layout version of the state file, bumped together with a new entry in stateMigrations
+const stateVersion = 1;
+const STATE_WRITE_DELAY_MS = 1000; // Changes to the state within this time go out in one write
+
+// Track all child processes
+const activeProcesses: Set<RunningProcess> = new Set();
+
+
+let appState: AppState = {
+    version: stateVersion,
+    tracks: {},
+    stats: {
+        totalTracks: 0,
+        completedTracks: 0,
+        errorTracks: 0
+    }
+};
+
+// Check terminal size
+function checkTerminalSize() {
+    const minRows = 24;
+    const minCols = 80;
+    
+    if (process.stdout.rows < minRows || process.stdout.columns < minCols) {
+        console.warn(`\n⚠️  WARNING: Terminal size too small (${process.stdout.columns}x${process.stdout.rows})`);
+        console.warn(`   Recommended minimum: ${minCols}x${minRows}`);
+        console.warn(`   The UI may not display correctly.\n`);
+        return false;
+    }
+    return true;
+}
+
+// Blessed UI widgets, only created when the interactive sync runs
+let screen: blessed.Widgets.Screen | undefined;
+let headerBox: blessed.Widgets.BoxElement;
+let progressBar: blessed.Widgets.ProgressBarElement;
+let activeBox: blessed.Widgets.BoxElement;
+let statusBox: blessed.Widgets.BoxElement;
+let logBox: blessed.Widgets.Log;
+
+// Initialize blessed screen and widgets
+function initUi() {
+    const uiScreen = blessed.screen({
+        smartCSR: true,
+        title: 'YouTube Music Downloader for Car Multimedia',
+        debug: false, // Set to false for production
+        fullUnicode: true,
+        autoPadding: true,
+        forceUnicode: true,
+        fastCSR: true,
+        resizeTimeout: 300
+    });
+    screen = uiScreen;
+    
+    // Initial render to ensure screen is working
+    try {
+        checkTerminalSize();
+        uiScreen.render();
+        console.log('Initial screen render successful');
+    } catch (error) {
+        console.error('Error during initial screen render:', error);
+    }
+
+    // Handle terminal resize
+    uiScreen.on('resize', () => {
+        checkTerminalSize();
+        try {
+            // Reflow the log box content on resize
+            logBox.setContent('');
+            for (const line of logBuffer.slice(-50)) { // Show last 50 lines on resize
+                logBox.pushLine(line);
+            }
+            uiScreen.render();
+        } catch (error) {
+            console.error('Error rendering after resize:', error);
+        }
+    });
+
+    // Create header
+    headerBox = blessed.box({
+        parent: uiScreen,
+        top: 0,
+        left: 0,
+        width: '100%',
+        height: 3,
+        content: chalk.bold.cyan(' 🎵 YouTube Music Downloader for Car Multimedia 🚗'),
+        border: 'line',
+        style: {
+            border: {
+                fg: 'cyan'
+            }
+        }
+    });
+
+    // Create main progress bar
+    progressBar = blessed.progressbar({
+        parent: uiScreen,
+        top: 3,
+        left: 0,
+        width: '100%',
+        height: 3,
+        border: 'line',
+        style: {
+            fg: 'blue',
+            bg: 'default',
+            border: {
+                fg: 'cyan'
+            },
+            bar: {
+                bg: 'blue'
+            }
+        },
+        filled: 0
+    });
+
+    // Create active downloads box
+    activeBox = blessed.box({
+        parent: uiScreen,
+        top: 6,
+        left: 0,
+        width: '100%',
+        height: 10, // Increase height to show more active downloads
+        border: 'line',
+        content: 'Active Downloads:',
+        tags: true,
+        scrollable: true,
+        alwaysScroll: true,
+        scrollbar: {
+            ch: ' ',
+            track: {
+                bg: 'cyan'
+            },
+            style: {
+                inverse: true
+            }
+        },
+        style: {
+            border: {
+                fg: 'cyan'
+            }
+        }
+    });
+
+    // Create status box
+    statusBox = blessed.box({
+        parent: uiScreen,
+        top: 16, // Adjust top position based on new activeBox height
+        left: 0,
+        width: '100%',
+        height: 3,
+        border: 'line',
+        content: 'Ready to start...',
+        style: {
+            border: {
+                fg: 'cyan'
+            }
+        }
+    });
+
+    // Create log box
+    logBox = blessed.log({
+        parent: uiScreen,
+        top: 19, // Adjust top position based on new statusBox position
+        bottom: 0,
+        left: 0,
+        width: '100%',
+        height: 'shrink', // Use shrink to fit between top and bottom
+        border: 'line',
+        scrollable: true,
+        mouse: true,
+        keys: true,
+        vi: true,
+        alwaysScroll: true,
+        tags: true,
+        scrollbar: {
+            ch: ' ',
+            track: {
+                bg: 'cyan'
+            },
+            style: {
+                inverse: true
+            }
+        },
+        style: {
+            border: {
+                fg: 'cyan'
+            }
+        },
+        // Limit the number of lines to prevent memory issues
+        scrollback: LOG_BUFFER_SIZE
+    });
+    
+    // Set up periodic render for throttled updates
+    setInterval(() => {
+        if (uiNeedsUpdate) {
+            try {
+                uiScreen.render();
+                lastScreenRender = Date.now();
+                uiNeedsUpdate = false;
+            } catch (error) {
+                console.error('Error in periodic render:', error);
+            }
+        }
+    }, RENDER_THROTTLE_MS);
+    
+    // Fix for proper exit handling
+    uiScreen.key(['q', 'C-c', 'C-d'], () => {
+        cleanupAndExit(0);
+    });
+}
+
+
+
+// Canonical state key of a track URL: "youtube:<id>" for all the forms a YouTube video URL takes
+// (youtu.be links, www/m/music hosts, extra parameters like &t=30), the URL itself for other sites
+function getTrackKey(url: string): string {
+    try {
+        const parsed = new URL(url);
+        const host = parsed.hostname.replace(/^(www|m|music)\./, '');
+        let id: string | null | undefined;
+        if (host === 'youtu.be') {
+            id = parsed.pathname.split('/')[1];
+        } else if (host === 'youtube.com' || host === 'youtube-nocookie.com') {
+            id = parsed.pathname === '/watch'
+                ? parsed.searchParams.get('v')
+                : parsed.pathname.match(/^\/(?:shorts|embed|live|v)\/([^/]+)/)?.[1];
+        }
+        if (id && /^[\w-]+$/.test(id)) {
+            return `youtube:${id}`;
+        }
+    } catch (error) {
+        // Not a URL (or already a key), use it as is
+    }
+    return url;
+}
+
+// Re-key entries of older state files (keyed by the raw URL) and merge entries for the same video
+function migrateStateKeys() {
+    let migrated = 0;
+    for (const [oldKey, track] of Object.entries(appState.tracks)) {
+        const key = getTrackKey(oldKey);
+        if (key === oldKey) {
+            continue;
+        }
+        delete appState.tracks[oldKey];
+        track.url = track.url ?? oldKey;
+        migrated++;
+        
+        // Keep the entry that has the file. The other one's files are a duplicate download; as links of the kept
+        // entry, the next sync removes them like any copy no playlist wants
+        const existing = appState.tracks[key];
+        const [kept, dropped] = existing && (existing.downloaded || !track.downloaded) ? [existing, track] : [track, existing];
+        const keptFiles = kept.file ? getTrackFiles(kept.file, kept) : [];
+        const duplicates = [...(dropped?.file ? getTrackFiles(dropped.file, dropped) : []), ...(dropped?.links ?? [])]
+            .filter(file => !keptFiles.includes(file));
+        if (duplicates.length > 0) {
+            kept.links = [...new Set([...(kept.links ?? []), ...duplicates])];
+            log(chalk.yellow(`⚠ ${kept.title || key} was downloaded twice, the next sync removes the duplicate: ${duplicates.join(', ')}`));
+        }
+        appState.tracks[key] = kept;
+    }
+    
+    if (migrated > 0) {
+        log(chalk.blue(`🔄 Migrated ${migrated} state entries to canonical track keys`));
+    }
+}
+
+// Upgrades of older state files, each from the version at its index to the next
+const stateMigrations: (() => void)[] = [
+    migrateStateKeys // 0 -> 1: tracks keyed by canonical track key instead of the raw URL
+];
+
+// Set when the state file couldn't be loaded, so whatever it holds isn't overwritten
+let stateReadOnly = false;
+let stateBackedUp = false;
+let stateWriteTimer: ReturnType<typeof setTimeout> | undefined;
+
+// Load state from file, upgrading it from older versions. A file that can't be read stops the run rather
+// than being replaced with an empty state
+function loadState() {
+    if (!fs.existsSync(stateFile)) {
+        appState = { version: stateVersion, tracks: {}, stats: { totalTracks: 0, completedTracks: 0, errorTracks: 0 } };
+        return;
+    }
+    try {
+        appState = fs.readJsonSync(stateFile);
+    } catch (error) {
+        stateReadOnly = true;
+        const errorMessage = error instanceof Error ? error.message : String(error);
+        const backup = fs.existsSync(stateBackupFile) ? `, or replace it with the backup ${stateBackupFile}` : '';
+        throw new Error(`Could not load the state file (${errorMessage}). Fix it${backup}; it won't be overwritten until then`);
+    }
+    
+    stateBackedUp = false;
+    
+    const version = appState.version ?? 0;
+    if (version > stateVersion) {
+        stateReadOnly = true;
+        throw new Error(`${stateFile} was written by a newer version of this script (state version ${version}), update it first`);
+    }
+    if (version < stateVersion) {
+        for (const migrate of stateMigrations.slice(version)) {
+            migrate();
+        }
+        appState.version = stateVersion;
+        flushState();
+        log(chalk.blue(`🔄 Upgraded the state file from version ${version} to ${stateVersion}, the old one is kept as ${stateBackupFile}`));
+    }
+}
+
+// Schedule writing the state file, so the many changes of parallel tracks go out in a few writes
+function saveState() {
+    if (stateWriteTimer) {
+        return;
+    }
+    stateWriteTimer = setTimeout(() => {
+        try {
+            flushState();
+        } catch (error) {
+            log(chalk.red(`❌ Error saving state: ${error}`));
+        }
+    }, STATE_WRITE_DELAY_MS);
+}
+
+// Write the state file now. It's written to a temp file that then replaces it, so a crash leaves either the
+// old or the new state but never a half-written file. The first write of a run backs up the file as loaded
+function flushState() {
+    if (stateWriteTimer) {
+        clearTimeout(stateWriteTimer);
+        stateWriteTimer = undefined;
+    }
+    if (stateReadOnly) {
+        throw new Error(`Not overwriting ${stateFile}, which could not be loaded`);
+    }
+    if (!stateBackedUp && fs.existsSync(stateFile)) {
+        fs.copySync(stateFile, stateBackupFile);
+    }
+    stateBackedUp = true;
+    
+    const tempStateFile = `${stateFile}.tmp`;
+    const fd = fs.openSync(tempStateFile, 'w');
+    try {
+        fs.writeSync(fd, `${JSON.stringify(appState, null, 2)}\n`);
+        fs.fsyncSync(fd);
+    } finally {
+        fs.closeSync(fd);
+    }
+    fs.renameSync(tempStateFile, stateFile);
+}
+
+// Safe render function
+function safeRender() {
+    if (!screen) {
+        return;
+    }
+    try {
+        // Throttle renders to avoid overwhelming the terminal
+        const now = Date.now();
+        if (now - lastScreenRender >= RENDER_THROTTLE_MS) {
+            screen.render();
+            lastScreenRender = now;
+            uiNeedsUpdate = false;
+        } else {
+            // If we can't render now, mark for update later
+            uiNeedsUpdate = true;
+        }
+    } catch (error) {
+        console.error('Error rendering screen:', error);
+    }
+}
+
+
+
+// Output mode: blessed UI, plain text lines, or a JSON-lines event stream
+type OutputMode = 'tui' | 'plain' | 'json';
+let outputMode: OutputMode = 'plain';
+
+// Headless mode is forced with --headless/--json, or picked when stdout is not a terminal
+function selectOutputMode(): OutputMode {
+    if (cliOptions.flags.json) {
+        return 'json';
+    }
+    if (cliOptions.flags.headless || !process.stdout.isTTY) {
+        return 'plain';
+    }
+    return 'tui';
+}
+
+// Write a single JSON-lines event to stdout
+function emitEvent(event: string, data: { [key: string]: any } = {}) {
+    console.log(JSON.stringify({ event, time: new Date().toISOString(), ...data }));
+}
+
+// Last progress step reported per track, so headless output only prints changes
+const reportedProgress = new Map<string, string>();
+
+// Report a track lifecycle event (only JSON mode emits these; plain mode already logs them)
+function reportTrackEvent(event: 'started' | 'completed' | 'failed' | 'skipped', url: string, data: { [key: string]: any } = {}) {
+    if (event !== 'started') {
+        reportedProgress.delete(url);
+    }
+    if (outputMode === 'json') {
+        emitEvent(event, { url, ...data });
+    }
+}
+
+// Final event of a JSON-lines run
+function reportRunFinished() {
+    if (outputMode === 'json') {
+        emitEvent('finished', { ...appState.stats });
+    }
+}
+
+// Headless replacement for the active downloads box
+function reportHeadlessProgress(activeDownloads: Map<string, TrackInfo>) {
+    activeDownloads.forEach((info, url) => {
+        if (info.status === 'pending' || info.status === 'queued' || info.status === 'verifying') {
+            return;
+        }
+        // JSON consumers get every whole percent, plain logs every 10%
+        const percent = Math.floor(info.progress || 0);
+        const step = outputMode === 'json' ? percent : percent - (percent % 10);
+        const key = `${info.status}:${step}`;
+        if (reportedProgress.get(url) === key) {
+            return;
+        }
+        reportedProgress.set(url, key);
+        
+        if (outputMode === 'json') {
+            emitEvent('progress', {
+                url,
+                title: info.title,
+                status: info.status,
+                progress: info.progress,
+                size: info.size,
+                speed: info.speed,
+                eta: info.eta
+            });
+        } else {
+            const details = [info.size, info.speed, info.eta ? `ETA: ${info.eta}` : undefined].filter(Boolean).join(' ');
+            log(chalk.gray(`${info.title} - ${info.status} ${step}%${details ? ` (${details})` : ''}`));
+        }
+    });
+}
+
+// UI update functions
+function updateStatus() {
+    if (!screen) {
+        if (outputMode === 'json') {
+            emitEvent('status', { ...appState.stats });
+        }
+        return;
+    }
+    const { totalTracks, completedTracks, errorTracks } = appState.stats;
+    const progress = totalTracks > 0 ? (completedTracks / totalTracks) * 100 : 0;
+    progressBar.setProgress(progress);
+    
+    const statusContent = [
+        chalk.cyan(`Total: ${chalk.bold(totalTracks.toString())}`),
+        chalk.green(`Completed: ${chalk.bold(completedTracks.toString())}`),
+        chalk.red(`Errors: ${chalk.bold(errorTracks.toString())}`),
+        chalk.yellow(`Remaining: ${chalk.bold((totalTracks - completedTracks - errorTracks).toString())}`)
+    ].join(' | ');
+    
+    statusBox.setContent(statusContent);
+    safeRender();
+}
+
+// Throttled version of updateActiveDownloads to prevent too many renders
+const updateActiveDownloads = throttle((activeDownloads: Map<string, TrackInfo>) => {
+    if (!screen) {
+        if (outputMode !== 'tui') {
+            reportHeadlessProgress(activeDownloads);
+        }
+        return;
+    }
+    
+    // Clear the box first to prevent artifacts
+    activeBox.setContent('');
+    
+    // Define fixed widths for each column
+    const titleWidth = 160;
+    const statusWidth = 15;
+    const progressWidth = 10;
+    const sizeWidth = 15;
+    const speedWidth = 15;
+    const etaWidth = 12;
+    
+    const pushTrackLine = (info: TrackInfo, url: string) => {
+        const title = info.title || url;
+        const displayTitle = title.length > titleWidth 
+            ? title.substring(0, titleWidth - 3) + '...' 
+            : title.padEnd(titleWidth);
+            
+        // Format status with consistent width
+        let statusText = '';
+        if (info.status === 'downloading') {
+            statusText = chalk.yellow('⬇️ Downloading');
+        } else if (info.status === 'queued') {
+            statusText = chalk.gray('⏸ Waiting');
+        } else if (info.status === 'measuring') {
+            statusText = chalk.magenta('📏 Measuring');
+        } else if (info.status === 'transcoding') {
+            statusText = chalk.blue('🔄 Transcoding');
+        } else if (info.status === 'verifying') {
+            statusText = chalk.magenta('🔍 Verifying');
+        } else {
+            statusText = chalk.green('✓ ' + info.status);
+        }
+        const status = statusText.padEnd(statusWidth);
+        
+        // Format other fields with consistent width
+        const progress = info.progress 
+            ? `${info.progress.toFixed(1)}%`.padEnd(progressWidth) 
+            : ''.padEnd(progressWidth);
+            
+        const size = info.size 
+            ? info.size.padEnd(sizeWidth) 
+            : ''.padEnd(sizeWidth);
+            
+        const speed = info.speed 
+            ? info.speed.padEnd(speedWidth) 
+            : ''.padEnd(speedWidth);
+            
+        const eta = info.eta 
+            ? `ETA: ${info.eta}`.padEnd(etaWidth) 
+            : ''.padEnd(etaWidth);
+        
+        // Combine all parts with proper spacing
+        const line = `  ${chalk.white(displayTitle)} ${status} ${progress} ${size} ${speed} ${eta}`;
+        activeBox.pushLine(line);
+    };
+    
+    // Tracks still fetching metadata or downloading, then the ones handed to the transcode queue
+    const tracks = [...activeDownloads.entries()];
+    const downloading = tracks.filter(([, info]) => info.status === 'pending' || info.status === 'downloading');
+    const transcoding = tracks.filter(([, info]) => info.status !== 'pending' && info.status !== 'downloading');
+    const waiting = transcoding.filter(([, info]) => info.status === 'queued').length;
+    const queued = downloadPool ? `, ${downloadPool.pendingCount} queued` : '';
+    
+    activeBox.pushLine(chalk.cyan.bold(`Downloads (${downloading.length}/${config.downloadConcurrency}${queued}):`));
+    if (downloading.length === 0) {
+        activeBox.pushLine('  No active downloads');
+    }
+    downloading.forEach(([url, info]) => pushTrackLine(info, url));
+    
+    activeBox.pushLine(chalk.cyan.bold(`Transcodes (${transcoding.length - waiting}/${config.concurrency}, ${waiting} waiting):`));
+    if (transcoding.length === 0) {
+        activeBox.pushLine('  No active transcodes');
+    }
+    transcoding.forEach(([url, info]) => pushTrackLine(info, url));
+    
+    safeRender();
+}, RENDER_THROTTLE_MS);
+
+
+// Romanization of single characters, by lowercase letter (uppercase letters get a capitalized result)
+const transliterationTable: { [char: string]: string } = {
+    // Cyrillic (Russian, Ukrainian, Belarusian, Serbian, Macedonian)
+    'а': 'a', 'б': 'b', 'в': 'v', 'г': 'g', 'д': 'd', 'е': 'e', 'ё': 'yo', 'ж': 'zh', 'з': 'z', 'и': 'i',
+    'й': 'y', 'к': 'k', 'л': 'l', 'м': 'm', 'н': 'n', 'о': 'o', 'п': 'p', 'р': 'r', 'с': 's', 'т': 't',
+    'у': 'u', 'ф': 'f', 'х': 'kh', 'ц': 'ts', 'ч': 'ch', 'ш': 'sh', 'щ': 'shch', 'ъ': '', 'ы': 'y', 'ь': '',
+    'э': 'e', 'ю': 'yu', 'я': 'ya', 'є': 'ye', 'і': 'i', 'ї': 'yi', 'ґ': 'g', 'ў': 'u', 'ђ': 'dj', 'ј': 'j',
+    'љ': 'lj', 'њ': 'nj', 'ћ': 'c', 'џ': 'dz', 'ѓ': 'gj', 'ќ': 'kj', 'ѕ': 'dz',
+    // Greek
+    'α': 'a', 'β': 'v', 'γ': 'g', 'δ': 'd', 'ε': 'e', 'ζ': 'z', 'η': 'i', 'θ': 'th', 'ι': 'i', 'κ': 'k',
+    'λ': 'l', 'μ': 'm', 'ν': 'n', 'ξ': 'x', 'ο': 'o', 'π': 'p', 'ρ': 'r', 'σ': 's', 'ς': 's', 'τ': 't',
+    'υ': 'y', 'φ': 'f', 'χ': 'ch', 'ψ': 'ps', 'ω': 'o',
+    // Arabic
+    'ا': 'a', 'أ': 'a', 'إ': 'i', 'آ': 'a', 'ب': 'b', 'ت': 't', 'ث': 'th', 'ج': 'j', 'ح': 'h', 'خ': 'kh',
+    'د': 'd', 'ذ': 'dh', 'ر': 'r', 'ز': 'z', 'س': 's', 'ش': 'sh', 'ص': 's', 'ض': 'd', 'ط': 't', 'ظ': 'z',
+    'ع': '', 'غ': 'gh', 'ف': 'f', 'ق': 'q', 'ك': 'k', 'ل': 'l', 'م': 'm', 'ن': 'n', 'ه': 'h', 'و': 'w',
+    'ي': 'y', 'ى': 'a', 'ة': 'h', 'ء': '', 'ؤ': 'w', 'ئ': 'y', 'پ': 'p', 'چ': 'ch', 'ژ': 'zh', 'گ': 'g',
+    'ک': 'k', 'ی': 'y', '٠': '0', '١': '1', '٢': '2', '٣': '3', '٤': '4', '٥': '5', '٦': '6', '٧': '7',
+    '٨': '8', '٩': '9', '،': ',',
+    // Japanese hiragana (katakana is mapped onto these), Hepburn
+    'あ': 'a', 'い': 'i', 'う': 'u', 'え': 'e', 'お': 'o', 'か': 'ka', 'き': 'ki', 'く': 'ku', 'け': 'ke', 'こ': 'ko',
+    'が': 'ga', 'ぎ': 'gi', 'ぐ': 'gu', 'げ': 'ge', 'ご': 'go', 'さ': 'sa', 'し': 'shi', 'す': 'su', 'せ': 'se', 'そ': 'so',
+    'ざ': 'za', 'じ': 'ji', 'ず': 'zu', 'ぜ': 'ze', 'ぞ': 'zo', 'た': 'ta', 'ち': 'chi', 'つ': 'tsu', 'て': 'te', 'と': 'to',
+    'だ': 'da', 'ぢ': 'ji', 'づ': 'zu', 'で': 'de', 'ど': 'do', 'な': 'na', 'に': 'ni', 'ぬ': 'nu', 'ね': 'ne', 'の': 'no',
+    'は': 'ha', 'ひ': 'hi', 'ふ': 'fu', 'へ': 'he', 'ほ': 'ho', 'ば': 'ba', 'び': 'bi', 'ぶ': 'bu', 'べ': 'be', 'ぼ': 'bo',
+    'ぱ': 'pa', 'ぴ': 'pi', 'ぷ': 'pu', 'ぺ': 'pe', 'ぽ': 'po', 'ま': 'ma', 'み': 'mi', 'む': 'mu', 'め': 'me', 'も': 'mo',
+    'や': 'ya', 'ゆ': 'yu', 'よ': 'yo', 'ら': 'ra', 'り': 'ri', 'る': 'ru', 'れ': 're', 'ろ': 'ro', 'わ': 'wa', 'ゐ': 'wi',
+    'ゑ': 'we', 'を': 'wo', 'ん': 'n', 'ぁ': 'a', 'ぃ': 'i', 'ぅ': 'u', 'ぇ': 'e', 'ぉ': 'o', 'ゎ': 'wa', 'ゔ': 'vu',
+    'ゃ': 'ya', 'ゅ': 'yu', 'ょ': 'yo', 'ー': '', '・': ' ', '。': '.', '、': ',', '「': '(', '」': ')',
+    // Latin letters that don't decompose into base letter + accent
+    'ß': 'ss', 'æ': 'ae', 'ø': 'o', 'œ': 'oe', 'ł': 'l', 'đ': 'd', 'ð': 'd', 'þ': 'th', 'ı': 'i',
+    // Typography
+    '–': '-', '—': '-', '‘': "'", '’': "'", '“': '"', '”': '"', '…': '...', '•': '-', '×': 'x', '　': ' '
+};
+
+// Revised Romanization of Korean: initial consonants, vowels and final consonants of a Hangul syllable
+const hangulInitials = ['g', 'kk', 'n', 'd', 'tt', 'r', 'm', 'b', 'pp', 's', 'ss', '', 'j', 'jj', 'ch', 'k', 't', 'p', 'h'];
+const hangulVowels = ['a', 'ae', 'ya', 'yae', 'eo', 'e', 'yeo', 'ye', 'o', 'wa', 'wae', 'oe', 'yo', 'u', 'wo', 'we', 'wi', 'yu', 'eu', 'ui', 'i'];
+const hangulFinals = ['', 'k', 'k', 'k', 'n', 'n', 'n', 't', 'l', 'k', 'm', 'l', 'l', 'l', 'p', 'l', 'm', 'p', 'p', 't', 't', 'ng', 't', 't', 'k', 't', 'p', 't'];
+
+// Emoji, flags, skin tones and the joiners/selectors that glue them together
+const emojiPattern = /[\p{Extended_Pictographic}\u{1F1E6}-\u{1F1FF}\u{1F3FB}-\u{1F3FF}\u200D\uFE0F\u20E3]/gu;
+
+// Romanize a single character; undefined when there is no table entry
+function transliterateChar(char: string): string | undefined {
+    const code = char.codePointAt(0)!;
+    if (code >= 0xAC00 && code <= 0xD7A3) {
+        const index = code - 0xAC00;
+        return hangulInitials[Math.floor(index / 588)] + hangulVowels[Math.floor((index % 588) / 28)] + hangulFinals[index % 28];
+    }
+    if (code >= 0x30A1 && code <= 0x30F6) {
+        // Katakana has the same layout as hiragana
+        char = String.fromCodePoint(code - 0x60);
+    }
+    const lower = char.toLowerCase();
+    // Accented letters such as Greek "ά" are looked up by their base letter
+    const result = transliterationTable[lower] ?? transliterationTable[lower.normalize('NFD')[0]];
+    if (result === undefined || lower === char) {
+        return result;
+    }
+    return result.charAt(0).toUpperCase() + result.substring(1);
+}
+
+// Spell Chinese characters in pinyin without tones, a word per syllable: "周杰伦 - 晴天" -> "Zhou Jie Lun - Qing Tian"
+function romanizeHan(text: string): string {
+    return text.replace(/\p{Script=Han}+/gu, (run: string, offset: number) => {
+        const syllables = pinyin(run, { toneType: 'none', type: 'array' }).map(syllable => syllable.charAt(0).toUpperCase() + syllable.substring(1));
+        const before = /[\p{L}\p{N}]$/u.test(text.substring(0, offset)) ? ' ' : '';
+        const after = /^[\p{L}\p{N}]/u.test(text.substring(offset + run.length)) ? ' ' : '';
+        return before + syllables.join(' ') + after;
+    });
+}
+
+// Spell non-Latin scripts in Latin letters, e.g. "Кино" -> "Kino", "東京 ラブ" -> "東京 rabu". Kanji in Japanese
+// titles (any with kana) are left alone, since their Chinese reading would be wrong
+function transliterate(text: string): string {
+    const japanese = /[\p{Script=Hiragana}\p{Script=Katakana}]/u.test(text);
+    const chars = Array.from(japanese ? text : romanizeHan(text));
+    let result = '';
+    for (let i = 0; i < chars.length; i++) {
+        const char = chars[i];
+        // Small tsu doubles the next consonant ("kitto"); "ch" becomes "tch"
+        if (char === 'っ' || char === 'ッ') {
+            const next = transliterateChar(chars[i + 1] ?? '') ?? '';
+            result += next.startsWith('ch') ? 't' : next.charAt(0);
+            continue;
+        }
+        let romanized = transliterateChar(char);
+        if (romanized === undefined) {
+            result += char;
+            continue;
+        }
+        const next = chars[i + 1] ?? '';
+        const small = transliterateChar(next);
+        if (small && romanized.length > 1) {
+            if (/^[ゃゅょャュョ]$/.test(next) && romanized.endsWith('i')) {
+                // Small ya/yu/yo after an "i" syllable merge into it: "kya", "sha", "cho"
+                romanized = /^(shi|chi|ji)$/.test(romanized)
+                    ? romanized.slice(0, -1) + small.substring(1)
+                    : romanized.slice(0, -1) + small;
+                i++;
+            } else if (/^[ぁぃぅぇぉァィゥェォ]$/.test(next)) {
+                // Small vowels replace the syllable's vowel: "fa", "ti", "she"
+                romanized = romanized.slice(0, -1) + small;
+                i++;
+            }
+        }
+        result += romanized;
+    }
+    return result;
+}
+
+// Names written before transliteration existed, for finding files of old state entries
+const legacyFileNameRules: FileNameConfig = { ...defaultConfig.fileNames, transliterate: false };
+
+function sanitizeFilename(filename: string, rules: FileNameConfig = defaultConfig.fileNames): string {
+    // More comprehensive sanitization for better file naming
+    let name = filename;
+    if (rules.transliterate) {
+        const withoutEmoji = name.replace(emojiPattern, '');
+        if (withoutEmoji !== name) {
+            name = withoutEmoji.replace(/\s{2,}/g, ' ').trim();
+        }
+        if (rules.ascii) {
+            name = transliterate(name);
+        }
+    }
+    name = name
+        // Remove quotes
+        .replace(/['"]+/g, '')
+        // Replace invalid file characters with hyphens
+        .replace(/[\\/:"*?<>|]+/g, '-');
+    if (rules.ascii) {
+        name = name
+            // Replace accented characters with simple ASCII equivalents
+            .normalize('NFD')
+            .replace(/[\u0300-\u036f]/g, '')
+            // Replace other non-ASCII characters with hyphens
+            .replace(/[^\x00-\x7F]/g, '-');
+    }
+    if (rules.spaces === 'underscore') {
+        name = name.replace(/\s+/g, '_');
+    }
+    if (rules.case !== 'keep') {
+        name = rules.case === 'lower' ? name.toLowerCase() : name.toUpperCase();
+    }
+    return name
+        // Replace multiple hyphens with single
+        .replace(/--+/g, '-')
+        // Remove leading/trailing hyphens
+        .replace(/^-|-$/g, '')
+        // Limit filename length
+        .substring(0, rules.maxLength);
+}
+
+// A started external process, as far as the pipeline uses it: output streams, "close" and "error" events, kill()
+interface RunningProcess extends EventEmitter {
+    stdout: Readable | null;
+    stderr: Readable | null;
+    kill(signal?: NodeJS.Signals): boolean;
+}
+
+// Starts the external tools (yt-dlp, ffmpeg, ffprobe). Every call goes through the active runner, so tests can
+// replace the real binaries with recorded output
+interface ProcessRunner {
+    spawn(command: string, args: string[], options?: SpawnOptions): RunningProcess;
+}
+
+// Runner starting the real binaries from the PATH
+const systemRunner: ProcessRunner = {
+    spawn: (command, args, options = {}) => spawn(command, args, options)
+};
+
+let processRunner: ProcessRunner = systemRunner;
+
+// Replace the runner the pipeline starts its processes with
+function setProcessRunner(runner: ProcessRunner) {
+    processRunner = runner;
 }
 
 // Execute a command asynchronously and return its output
 async function execAsync(command: string, args: string[], options: SpawnOptions = {}): Promise<string> {
     return new Promise((resolve, reject) => {
-        const process = spawn(command, args, { ...options, shell: false });
+        const process = processRunner.spawn(command, args, { ...options, shell: false });
         activeProcesses.add(process);
         
         let stdout = '';
@@ -551,49 +2185,490 @@ function safeJsonParse(text: string): any {
     }
 }
 
-// Helper function to resolve the actual downloaded file
-function resolveDownloadedFile(baseOutputPath: string): string {
-    // Check for common extensions that yt-dlp might use
-    const possibleExtensions = ['.mp4', '.webm', '.mkv', '.m4a', '.mp3'];
-    
-    for (const ext of possibleExtensions) {
-        const filePath = baseOutputPath + ext;
-        if (fs.existsSync(filePath)) {
-            log(chalk.blue(`✓ Found downloaded file with extension: ${ext}`));
-            return filePath;
-        }
+// Helper function to find a completed download, whatever extension yt-dlp gave it
+function findDownloadedFile(baseOutputPath: string): string | undefined {
+    // Check for common extensions that yt-dlp might use
+    const possibleExtensions = ['.mp4', '.webm', '.mkv', '.m4a', '.mp3'];
+    
+    for (const ext of possibleExtensions) {
+        const filePath = baseOutputPath + ext;
+        if (fs.existsSync(filePath)) {
+            log(chalk.blue(`✓ Found downloaded file with extension: ${ext}`));
+            return filePath;
+        }
+    }
+    return undefined;
+}
+
+// Helper function to resolve the actual downloaded file
+function resolveDownloadedFile(baseOutputPath: string): string {
+    const filePath = findDownloadedFile(baseOutputPath);
+    if (filePath) {
+        return filePath;
+    }
+    
+    // If no file is found, log a warning and return the default .webm path
+    // This maintains backward compatibility with the original code
+    log(chalk.yellow(`⚠ Could not find downloaded file for ${baseOutputPath}, falling back to .webm`));
+    return baseOutputPath + '.webm';
+}
+
+// Fill a "{field|fallback}" template from a field map; a placeholder with no value becomes empty
+function renderTemplate(template: string, fields: { [name: string]: any }): string {
+    return template.replace(/\{([^{}]+)\}/g, (_, expr: string) => {
+        // "{playlist_index:02}" pads the value with zeros to two characters
+        const [names, format] = expr.split(':');
+        for (const name of names.split('|')) {
+            const value = fields[name.trim()];
+            if (value !== undefined && value !== null && value !== '') {
+                const text = Array.isArray(value) ? value.join(', ') : String(value);
+                return format ? text.padStart(parseInt(format, 10), '0') : text;
+            }
+        }
+        return '';
+    }).trim();
+}
+
+// Fields available to templates: the yt-dlp JSON plus playlist position and a few derived values
+function buildTemplateFields(info: any, track: QueuedTrack): { [name: string]: any } {
+    return {
+        ...info,
+        artist: info.artist || (Array.isArray(info.artists) ? info.artists.join(', ') : undefined),
+        genre: info.genre || (Array.isArray(info.genres) ? info.genres[0] : undefined),
+        playlist_title: track.playlistTitle,
+        playlist_index: track.playlistIndex,
+        year: info.release_year || (typeof info.upload_date === 'string' ? info.upload_date.substring(0, 4) : undefined)
+    };
+}
+
+// yt-dlp fields a template reads. Derived fields (see buildTemplateFields) read the ones they're made from,
+// and the playlist fields come from the track
+const templateFieldSources: { [name: string]: string[] } = {
+    artist: ['artist', 'artists'],
+    genre: ['genre', 'genres'],
+    year: ['release_year', 'upload_date'],
+    playlist_title: [],
+    playlist_index: []
+};
+
+function getTemplateFieldNames(template: string): string[] {
+    return [...template.matchAll(/\{([^{}]+)\}/g)]
+        .flatMap(([, expr]) => expr.split(':')[0].split('|'))
+        .flatMap(name => templateFieldSources[name.trim()] ?? [name.trim()]);
+}
+
+// Keep the yt-dlp fields the file name template and the tag mapping use in the state file, so names can be
+// rendered again without fetching metadata
+function pickStoredMetadata(info: any, rules: FileNameConfig): StoredMetadata {
+    const templates = [rules.template, ...Object.values(config.tags.mapping)];
+    const stored: StoredMetadata = {};
+    for (const field of new Set(['id', 'title', ...templates.flatMap(getTemplateFieldNames)])) {
+        const value = info[field];
+        const storable = ['string', 'number', 'boolean'].includes(typeof value)
+            || (Array.isArray(value) && value.every(item => typeof item === 'string'));
+        stored[field] = storable ? value : null;
+    }
+    return stored;
+}
+
+// File name of a track from its template, numbered by playlist position unless the template does that itself
+function renderTrackFileName(info: any, track: QueuedTrack, rules: FileNameConfig): string {
+    const rendered = renderTemplate(rules.template, buildTemplateFields(info, track))
+        // Drop the separators around fields that came out empty ("01 -  - Title", " - Title")
+        .replace(/\s+-(\s+-)+\s+/g, ' - ')
+        .replace(/^(-\s+)+|(\s+-)+$/g, '');
+    let name = sanitizeFilename(rendered, rules);
+    if (!/[\p{L}\p{N}]/u.test(name)) {
+        // Nothing readable survived (e.g. an all-emoji or untransliterated title), so name it after the video
+        name = sanitizeFilename(String(info.id ?? ''), rules) || 'Track';
+    }
+    if (!config.output.numberTracks || !track.playlistIndex || /\{[^}]*\bplaylist_index\b/.test(rules.template)) {
+        return name;
+    }
+    // Pad to the playlist's size so head units sort the files in playlist order
+    const width = Math.max(2, String(track.playlistSize ?? track.playlistIndex).length);
+    return `${String(track.playlistIndex).padStart(width, '0')} - ${name}`;
+}
+
+// Fields for naming an already downloaded track; entries from older versions only know the title
+function getStoredNamingInfo(key: string, state: TrackState): any {
+    return state.metadata ?? { title: state.title, id: getTrackId(key) };
+}
+
+// Map metadata to container tags using the configured templates
+function buildTrackTags(metadata: TrackMetadata, track: QueuedTrack): TrackTags | undefined {
+    if (!config.tags.enabled) {
+        return undefined;
+    }
+    const fields = buildTemplateFields(metadata.info, track);
+    const tags: TrackTags = {};
+    for (const [tag, template] of Object.entries(config.tags.mapping)) {
+        const value = renderTemplate(template, fields);
+        if (value) {
+            tags[tag] = value;
+        }
+    }
+    return tags;
+}
+
+// Helper function to find the thumbnail yt-dlp saved next to the download
+function resolveThumbnailFile(baseOutputPath: string): string | undefined {
+    for (const ext of ['.jpg', '.webp', '.png']) {
+        const filePath = baseOutputPath + ext;
+        if (fs.existsSync(filePath)) {
+            return filePath;
+        }
+    }
+    log(chalk.yellow(`⚠ No thumbnail found for ${path.basename(baseOutputPath)}, skipping cover art`));
+    return undefined;
+}
+
+// Helper function to build FFmpeg metadata arguments
+function buildTagArgs(tags: TrackTags | undefined): string[] {
+    // Drop the source container's tags so only ours end up in the file, and none at all with tagging disabled
+    const args = ['-map_metadata', '-1'];
+    for (const [tag, value] of Object.entries(tags ?? {})) {
+        args.push('-metadata', `${tag}=${value}`);
+    }
+    return args;
+}
+
+// Helper function to build the input options that limit a transcode to part of the input
+function buildInputRangeArgs(options: TranscodeOptions): string[] {
+    const { start, end } = options;
+    return [
+        ...(start ? ['-ss', start.toFixed(3)] : []),
+        ...(end !== undefined ? ['-t', (end - (start ?? 0)).toFixed(3)] : [])
+    ];
+}
+
+// Helper function to build the filters that drop everything outside the kept segments of a range
+function buildSegmentFilters(options: TranscodeOptions, stream: 'video' | 'audio'): string[] {
+    if (!options.segments) {
+        return [];
+    }
+    const expression = options.segments.map(([from, to]) => `between(t,${from.toFixed(3)},${to.toFixed(3)})`).join('+');
+    // New timestamps make the kept segments play back to back
+    return stream === 'video'
+        ? [`select='${expression}'`, 'setpts=N/FRAME_RATE/TB']
+        : [`aselect='${expression}'`, 'asetpts=N/SR/TB'];
+}
+
+// Helper function to build the audio filter chain: segment selection, then loudness normalization
+function buildAudioFilterArgs(options: TranscodeOptions): string[] {
+    const filters = [...buildSegmentFilters(options, 'audio'), ...(options.audioFilter ? [options.audioFilter] : [])];
+    return filters.length > 0 ? ['-filter:a', filters.join(',')] : [];
+}
+
+// Helper function to build FFmpeg arguments for audio-only output (MP3 or M4A)
+function buildAudioFfmpegArgs(inputPath: string, outputPath: string, audioFormat: AudioFormatConfig, options: TranscodeOptions = {}): string[] {
+    const { format, bitrateMode, bitrate, quality, sampleRate, channels } = audioFormat;
+    const { tags, coverPath, audioFilter, mode = 'full' } = options;
+    
+    // AAC in M4A is always encoded at a constant bitrate
+    const encoderArgs = format === 'mp3'
+        ? ['-c:a', 'libmp3lame', ...(bitrateMode === 'vbr' ? ['-q:a', String(quality)] : ['-b:a', bitrate])]
+        : ['-c:a', 'aac', '-b:a', bitrate];
+    const audioArgs = mode === 'copy'
+        ? ['-c:a', 'copy']
+        : [
+            ...buildAudioFilterArgs(options),
+            ...encoderArgs,
+            // loudnorm outputs 192 kHz, so a filtered track always needs an explicit rate
+            ...(sampleRate || audioFilter ? ['-ar', String(sampleRate ?? defaultSampleRate)] : []),
+            ...(channels ? ['-ac', String(channels)] : [])
+        ];
+    
+    // The cover goes in as a JPEG attached picture; without one, drop the video stream entirely
+    const streamArgs = coverPath
+        ? ['-map', '0:a:0', '-map', '1:v:0', '-c:v', 'mjpeg', '-disposition:v:0', 'attached_pic', '-metadata:s:v', 'comment=Cover (front)']
+        : ['-vn'];
+    
+    return [
+        '-y',
+        ...buildInputRangeArgs(options),
+        '-i', inputPath,
+        ...(coverPath ? ['-i', coverPath] : []),
+        ...streamArgs,
+        ...audioArgs,
+        ...(format === 'mp3' ? ['-id3v2_version', '3'] : ['-movflags', '+faststart']),
+        ...buildTagArgs(tags),
+        outputPath
+    ];
+}
+
+// Scale into the profile's resolution box, keeping the aspect ratio unless scaling is "stretch"
+function buildScaleFilter(videoFormat: VideoFormatConfig): string {
+    const { resolution, scaling } = videoFormat;
+    const [width, height] = resolution.split(':');
+    
+    // -1/-2 already let ffmpeg derive one side from the aspect ratio
+    if (scaling === 'stretch' || width.startsWith('-') || height.startsWith('-')) {
+        return `scale=${resolution}`;
+    }
+    const fit = `scale=${width}:${height}:force_original_aspect_ratio=decrease:force_divisible_by=2`;
+    if (scaling === 'pad') {
+        return `${fit},pad=${width}:${height}:(ow-iw)/2:(oh-ih)/2,setsar=1`;
+    }
+    return `${fit},setsar=1`;
+}
+
+// Helper function to build FFmpeg arguments
+function buildFfmpegArgs(inputPath: string, outputPath: string, settings: OutputSettings, options: TranscodeOptions = {}): string[] {
+    if (settings.mediaType === 'audio') {
+        return buildAudioFfmpegArgs(inputPath, outputPath, settings.audioFormat, options);
+    }
+    const { tags, coverPath, audioFilter, mode = 'full' } = options;
+    
+    const { codec, profile, level, maxFrameRate, maxRate, bufSize, audioCodec, audioBitrate, audioSampleRate, audioChannels } = settings.videoFormat;
+    
+    // Streams that already fit the profile are copied as they are
+    const videoArgs = mode === 'full'
+        ? [
+            '-c:v:0', codec,
+            '-profile:v:0', profile,
+            '-level:v:0', level,
+            '-maxrate:v:0', maxRate,
+            '-bufsize:v:0', bufSize,
+            '-filter:v:0', [...buildSegmentFilters(options, 'video'), buildScaleFilter(settings.videoFormat)].join(','),
+            ...(maxFrameRate ? ['-fpsmax:v:0', String(maxFrameRate)] : [])
+        ]
+        : ['-c:v:0', 'copy'];
+    const audioArgs = mode === 'copy'
+        ? ['-c:a', 'copy']
+        : [
+            ...buildAudioFilterArgs(options),
+            '-c:a', audioCodec,
+            '-b:a', audioBitrate,
+            ...(audioSampleRate || audioFilter ? ['-ar', String(audioSampleRate ?? defaultSampleRate)] : []),
+            ...(audioChannels ? ['-ac', String(audioChannels)] : [])
+        ];
+    
+    // Video settings target the first video stream only, so an attached cover stays a plain JPEG
+    const coverArgs = coverPath
+        ? ['-map', '0:v:0', '-map', '0:a:0?', '-map', '1:v:0', '-c:v:1', 'mjpeg', '-disposition:v:1', 'attached_pic']
+        : [];
+    
+    return [
+        '-y',
+        ...buildInputRangeArgs(options),
+        '-i', inputPath,
+        ...(coverPath ? ['-i', coverPath] : []),
+        ...coverArgs,
+        ...videoArgs,
+        ...audioArgs,
+        ...buildTagArgs(tags),
+        outputPath
+    ];
+}
+
+// ffprobe codec names of the encoders a profile may use
+const encoderCodecs: { [encoder: string]: string } = {
+    libx264: 'h264',
+    aac: 'aac',
+    libfdk_aac: 'aac',
+    libmp3lame: 'mp3',
+    libopus: 'opus',
+    libvorbis: 'vorbis',
+    ac3: 'ac3'
+};
+
+// H.264 profiles (as ffprobe names them) that a decoder for the given profile also plays
+const compatibleH264Profiles: { [profile: string]: string[] } = {
+    baseline: ['Constrained Baseline', 'Baseline'],
+    main: ['Constrained Baseline', 'Main'],
+    high: ['Constrained Baseline', 'Main', 'High']
+};
+
+// Parse a bitrate like "2M" or "192k" into bits per second
+function parseBitrate(bitrate: string): number {
+    const match = bitrate.match(sizePattern);
+    if (!match) {
+        return 0;
+    }
+    const multipliers: { [unit: string]: number } = { '': 1, k: 1000, m: 1000 ** 2, g: 1000 ** 3 };
+    return parseFloat(match[1]) * multipliers[match[2].toLowerCase()];
+}
+
+// Parse an ffprobe frame rate like "30000/1001"
+function parseFrameRate(rate: string | undefined): number | undefined {
+    const [numerator, denominator = '1'] = (rate ?? '').split('/');
+    const value = Number(numerator) / Number(denominator);
+    return Number.isFinite(value) && value > 0 ? value : undefined;
+}
+
+// Probe the container and streams of a media file
+async function probeMedia(filePath: string): Promise<MediaProbe> {
+    const output = await execAsync('ffprobe', ['-v', 'error', '-print_format', 'json', '-show_format', '-show_streams', filePath]);
+    const { format, streams = [] } = safeJsonParse(output) as { format?: any; streams?: any[] };
+    // An embedded thumbnail shows up as a video stream too
+    const video = streams.find(stream => stream.codec_type === 'video' && !stream.disposition?.attached_pic);
+    const audio = streams.find(stream => stream.codec_type === 'audio');
+    const toNumber = (value: any) => Number(value) > 0 ? Number(value) : undefined;
+    return {
+        formats: String(format?.format_name ?? '').split(','),
+        duration: toNumber(format?.duration),
+        video: video && {
+            codec: video.codec_name,
+            profile: video.profile,
+            level: toNumber(video.level),
+            width: video.width,
+            height: video.height,
+            pixelFormat: video.pix_fmt,
+            sampleAspectRatio: video.sample_aspect_ratio,
+            frameRate: parseFrameRate(video.avg_frame_rate) ?? parseFrameRate(video.r_frame_rate),
+            bitRate: toNumber(video.bit_rate)
+        },
+        audio: audio && {
+            codec: audio.codec_name,
+            profile: audio.profile,
+            bitRate: toNumber(audio.bit_rate),
+            sampleRate: toNumber(audio.sample_rate),
+            channels: toNumber(audio.channels)
+        }
+    };
+}
+
+// Probe a download before transcoding it; undefined when ffprobe fails, which means a full transcode
+async function analyzeSource(inputPath: string): Promise<MediaProbe | undefined> {
+    try {
+        return await probeMedia(inputPath);
+    } catch (error) {
+        const errorMessage = error instanceof Error ? error.message : String(error);
+        log(chalk.yellow(`⚠ Could not analyze ${path.basename(inputPath)}, transcoding it fully: ${errorMessage}`));
+        return undefined;
+    }
+}
+
+// Ways a video stream falls outside a profile. The profile, level and pixel format checks apply to H.264
+// streams, and what ffprobe can't tell (often the bitrate) isn't held against the stream
+function getVideoMismatches(video: NonNullable<MediaProbe['video']>, videoFormat: VideoFormatConfig, bitrateTolerance = 1): string[] {
+    const { codec, profile, level, resolution, scaling, maxFrameRate, maxRate } = videoFormat;
+    const mismatches: string[] = [];
+    if (encoderCodecs[codec] && video.codec !== encoderCodecs[codec]) {
+        mismatches.push(`video codec ${video.codec} instead of ${encoderCodecs[codec]}`);
+    }
+    if (video.codec === 'h264') {
+        const profiles = compatibleH264Profiles[profile.toLowerCase()];
+        if (profiles && !profiles.includes(video.profile ?? '')) {
+            mismatches.push(`H.264 profile ${video.profile ?? 'unknown'} instead of ${profile}`);
+        }
+        if (!video.level || !(video.level <= Math.round(parseFloat(level) * 10))) {
+            mismatches.push(`H.264 level ${video.level ? (video.level / 10).toFixed(1) : 'unknown'} above ${level}`);
+        }
+        if (video.pixelFormat !== 'yuv420p') {
+            mismatches.push(`pixel format ${video.pixelFormat ?? 'unknown'} instead of yuv420p`);
+        }
+    }
+    // fit only caps the size, pad and stretch produce exactly the box; -1/-2 sides are derived
+    const [width, height] = resolution.split(':').map(Number);
+    const sideFits = (actual: number, box: number) => !(box > 0) || (scaling === 'fit' ? actual <= box : actual === box);
+    if (!sideFits(video.width, width) || !sideFits(video.height, height)) {
+        mismatches.push(`resolution ${video.width}x${video.height} doesn't fit ${resolution} (${scaling})`);
+    }
+    if (video.sampleAspectRatio && !['1:1', '0:1', 'N/A'].includes(video.sampleAspectRatio)) {
+        mismatches.push(`non-square pixels (${video.sampleAspectRatio})`);
+    }
+    if (maxFrameRate && video.frameRate && video.frameRate > maxFrameRate + 0.01) {
+        mismatches.push(`frame rate ${video.frameRate.toFixed(2)} above ${maxFrameRate}`);
+    }
+    if (video.bitRate && video.bitRate > parseBitrate(maxRate) * bitrateTolerance) {
+        mismatches.push(`video bitrate ${Math.round(video.bitRate / 1000)}k above ${maxRate}`);
+    }
+    return mismatches;
+}
+
+// The audio a profile produces, for comparing streams with it
+interface AudioTarget {
+    encoder: string;
+    bitrate?: string; // Undefined for VBR MP3, which has no bitrate to compare with
+    sampleRate?: number;
+    channels?: number;
+}
+
+function getAudioTarget(settings: OutputSettings): AudioTarget {
+    if (settings.mediaType === 'audio') {
+        const { format, bitrateMode, bitrate, sampleRate, channels } = settings.audioFormat;
+        return {
+            encoder: format === 'mp3' ? 'libmp3lame' : 'aac',
+            bitrate: format === 'mp3' && bitrateMode === 'vbr' ? undefined : bitrate,
+            sampleRate,
+            channels
+        };
+    }
+    const { audioCodec, audioBitrate, audioSampleRate, audioChannels } = settings.videoFormat;
+    return { encoder: audioCodec, bitrate: audioBitrate, sampleRate: audioSampleRate, channels: audioChannels };
+}
+
+// Ways an audio stream falls outside a profile's codec, bitrate (if given), sample rate and channels
+function getAudioMismatches(audio: NonNullable<MediaProbe['audio']>, target: AudioTarget, bitrateTolerance = 1): string[] {
+    const { encoder, bitrate, sampleRate, channels } = target;
+    const mismatches: string[] = [];
+    if (encoderCodecs[encoder] && audio.codec !== encoderCodecs[encoder]) {
+        mismatches.push(`audio codec ${audio.codec} instead of ${encoderCodecs[encoder]}`);
+    }
+    // Old head units only decode plain AAC-LC, not HE-AAC
+    if (audio.codec === 'aac' && audio.profile !== 'LC') {
+        mismatches.push(`AAC profile ${audio.profile ?? 'unknown'} instead of LC`);
+    }
+    if (bitrate !== undefined && audio.bitRate && audio.bitRate > parseBitrate(bitrate) * bitrateTolerance) {
+        mismatches.push(`audio bitrate ${Math.round(audio.bitRate / 1000)}k above ${bitrate}`);
+    }
+    if (sampleRate && audio.sampleRate !== sampleRate) {
+        mismatches.push(`sample rate ${audio.sampleRate ?? 'unknown'} instead of ${sampleRate}`);
+    }
+    if (channels && audio.channels && audio.channels > channels) {
+        mismatches.push(`${audio.channels} audio channels instead of ${channels}`);
+    }
+    return mismatches;
+}
+
+// Whether a source video stream can be copied as it is: H.264 for an H.264 profile, with everything known and in range
+function videoStreamFits(video: MediaProbe['video'], videoFormat: VideoFormatConfig): boolean {
+    if (!video || video.codec !== 'h264' || encoderCodecs[videoFormat.codec] !== 'h264') {
+        return false;
+    }
+    if (video.bitRate === undefined || (videoFormat.maxFrameRate && video.frameRate === undefined)) {
+        return false;
+    }
+    return getVideoMismatches(video, videoFormat).length === 0;
+}
+
+// Whether a source audio stream can be copied as it is, with everything the profile sets known and in range
+function audioStreamFits(audio: MediaProbe['audio'], target: AudioTarget): boolean {
+    if (!audio || audio.codec !== encoderCodecs[target.encoder]) {
+        return false;
     }
-    
-    // If no file is found, log a warning and return the default .webm path
-    // This maintains backward compatibility with the original code
-    log(chalk.yellow(`⚠ Could not find downloaded file for ${baseOutputPath}, falling back to .webm`));
-    return baseOutputPath + '.webm';
+    if ((target.bitrate !== undefined && audio.bitRate === undefined) || (target.channels && audio.channels === undefined)) {
+        return false;
+    }
+    return getAudioMismatches(audio, target).length === 0;
 }
 
-// Helper function to build FFmpeg arguments
-function buildFfmpegArgs(inputPath: string, outputPath: string): string[] {
-    const { codec, profile, level, resolution, maxRate, bufSize, audioCodec, audioBitrate } = config.videoFormat;
-    
-    return [
-        '-y',
-        '-i', inputPath,
-        '-c:v', codec,
-        '-profile:v', profile,
-        '-level', level,
-        '-maxrate', maxRate,
-        '-bufsize', bufSize,
-        '-vf', `scale=${resolution}`,
-        '-c:a', audioCodec,
-        '-b:a', audioBitrate,
-        outputPath
-    ];
+// Decide how much of a source to re-encode. Trimmed and split ranges always get a full transcode, since a
+// stream copy can only cut at keyframes; loudness normalization needs the audio re-encoded
+function chooseTranscodeMode(probe: MediaProbe | undefined, settings: OutputSettings, options: TranscodeOptions): TranscodeMode {
+    if (!probe || options.segments || options.start || options.end !== undefined) {
+        return 'full';
+    }
+    const audioFits = !options.audioFilter && audioStreamFits(probe.audio, getAudioTarget(settings));
+    if (settings.mediaType === 'audio') {
+        return audioFits ? 'copy' : 'full';
+    }
+    if (!videoStreamFits(probe.video, settings.videoFormat)) {
+        return 'full';
+    }
+    return audioFits ? 'copy' : 'audio';
 }
 
 // Active downloads tracking
 const activeDownloads = new Map<string, TrackInfo>();
 
+// Download pool of the running sync (a p-limit instance), for the queue length in the active box
+let downloadPool: { pendingCount: number } | undefined;
+
 // Fetch metadata for a track
-async function fetchMetadata(url: string): Promise<{ title: string; duration: number; sanitizedTitle: string }> {
+async function fetchMetadata(url: string): Promise<TrackMetadata> {
     log(chalk.blue(`🔍 Fetching metadata for: ${url}`));
     
     // Use enhanced parameters for metadata fetching
@@ -607,13 +2682,49 @@ async function fetchMetadata(url: string): Promise<{ title: string; duration: nu
     const metadata = safeJsonParse(metadataOutput);
     const title = metadata.title;
     const duration = metadata.duration || 0; // Default to 0 if duration is not available
-    const sanitizedTitle = sanitizeFilename(title);
     
-    return { title, duration, sanitizedTitle };
+    return { title, duration, info: metadata };
+}
+
+// Helper function to parse a yt-dlp progress line
+// Example: [download]   4.7% of ~ 153.81MiB at    2.19MiB/s ETA 01:12 (frag 41/926)
+function parseDownloadProgress(text: string): Pick<TrackInfo, 'progress' | 'size' | 'speed' | 'eta'> | undefined {
+    const progressMatch = text.match(/\[download\]\s+(\d+\.\d+)%\s+of\s+~?\s*(\d+\.\d+)(\w+)\s+at\s+(\d+\.\d+)(\w+)\/s\s+ETA\s+(\d+:\d+)/);
+    if (!progressMatch) {
+        return undefined;
+    }
+    const [, percent, size, sizeUnit, speed, speedUnit, eta] = progressMatch;
+    return {
+        progress: parseFloat(percent),
+        size: `${size}${sizeUnit}`,
+        speed: `${speed}${speedUnit}/s`,
+        eta
+    };
+}
+
+// yt-dlp format selection: the best streams within the profile's resolution, falling back to whatever there is to
+// handle signature extraction issues. YouTube's best streams are usually VP9 or AV1 with Opus, so with stream copy
+// the H.264 and AAC ones are tried first; they are the only ones that can fit the profile as they are
+function getDownloadFormat(settings: OutputSettings): string {
+    if (settings.mediaType === 'audio') {
+        const aac = config.streamCopy && encoderCodecs[getAudioTarget(settings).encoder] === 'aac';
+        return aac ? `bestaudio[acodec^=mp4a]/${audioOnlyFormat}` : audioOnlyFormat;
+    }
+    const { codec, audioCodec, resolution } = settings.videoFormat;
+    const height = Number(resolution.split(':')[1]);
+    const limit = height > 0 ? `[height<=${height}]` : '';
+    const formats = [`bestvideo${limit}+bestaudio`, `best${limit}`, 'best'];
+    if (config.streamCopy && encoderCodecs[codec] === 'h264') {
+        formats.unshift(
+            ...(encoderCodecs[audioCodec] === 'aac' ? [`bestvideo${limit}[vcodec^=avc1]+bestaudio[acodec^=mp4a]`] : []),
+            `bestvideo${limit}[vcodec^=avc1]+bestaudio`
+        );
+    }
+    return formats.join('/');
 }
 
 // Download video using yt-dlp
-async function downloadVideo(url: string, outputPath: string, trackInfo: TrackInfo): Promise<void> {
+async function downloadVideo(url: string, outputPath: string, trackInfo: TrackInfo, settings: OutputSettings): Promise<void> {
     log(chalk.blue(`⬇️ Downloading: ${chalk.bold(trackInfo.title)}`));
     
     // Update status to downloading
@@ -626,18 +2737,20 @@ async function downloadVideo(url: string, outputPath: string, trackInfo: TrackIn
         '-i', 
         '--no-overwrites', 
         '--cookies-from-browser', 'vivaldi:Default',
-        '-f', fallbackFormat, 
-        '--force-overwrites',  // Force overwrite if needed
+        '-f', getDownloadFormat(settings), 
+        '--continue',  // Resume the partial download an interrupted sync left behind
         '--no-playlist',  // Ensure we only download the single video
         '--downloader', 'aria2c',  // Try using aria2c downloader for better reliability
         '--downloader-args', 'aria2c:"-x 16 -s 16 -k 1M"',  // Optimize aria2c parameters
         ...ytdlpExtraParams,  // Add our extra parameters for handling signature issues
+        // Save the thumbnail next to the download to embed it as cover art
+        ...(config.tags.enabled && config.tags.coverArt ? ['--write-thumbnail', '--convert-thumbnails', 'jpg'] : []),
         '-o', outputPath, 
         url
     ];
     
     log(chalk.gray(`Running yt-dlp with enhanced parameters to handle signature issues`));
-    const downloadProcess = spawn('yt-dlp', downloadArgs, { stdio: 'pipe' });
+    const downloadProcess = processRunner.spawn('yt-dlp', downloadArgs, { stdio: 'pipe' });
     
     activeProcesses.add(downloadProcess);
     trackInfo.process = downloadProcess;
@@ -646,6 +2759,7 @@ async function downloadVideo(url: string, outputPath: string, trackInfo: TrackIn
     // Wait for download to complete
     await new Promise<void>((resolve, reject) => {
         let downloadOutput = '';
+        let downloadErrors = ''; // Everything but progress lines, to tell what went wrong
         
         if (downloadProcess.stdout) {
             downloadProcess.stdout.on('data', (data) => {
@@ -658,16 +2772,13 @@ async function downloadVideo(url: string, outputPath: string, trackInfo: TrackIn
             downloadProcess.stderr.on('data', (data) => {
                 const errorText = data.toString();
                 // Try to parse progress information from yt-dlp
-                // Example: [download]   4.7% of ~ 153.81MiB at    2.19MiB/s ETA 01:12 (frag 41/926)
-                const progressMatch = errorText.match(/\[download\]\s+(\d+\.\d+)%\s+of\s+~?\s*(\d+\.\d+)(\w+)\s+at\s+(\d+\.\d+)(\w+)\/s\s+ETA\s+(\d+:\d+)/);
-                if (progressMatch) {
-                    const [, percent, size, sizeUnit, speed, speedUnit, eta] = progressMatch;
-                    trackInfo.progress = parseFloat(percent);
-                    trackInfo.size = `${size}${sizeUnit}`;
-                    trackInfo.speed = `${speed}${speedUnit}/s`;
-                    trackInfo.eta = eta;
+                const progress = parseDownloadProgress(errorText);
+                if (progress) {
+                    Object.assign(trackInfo, progress);
                     activeDownloads.set(url, trackInfo);
                     updateActiveDownloads(activeDownloads);
+                } else {
+                    downloadErrors += errorText;
                 }
                 log(chalk.yellow(`Download warning: ${errorText.trim()}`));
             });
@@ -680,6 +2791,7 @@ async function downloadVideo(url: string, outputPath: string, trackInfo: TrackIn
             } else {
                 const error = new Error(`Download failed with code ${code}`);
                 (error as any).stdout = downloadOutput;
+                (error as any).stderr = downloadErrors;
                 reject(error);
             }
         });
@@ -691,118 +2803,926 @@ async function downloadVideo(url: string, outputPath: string, trackInfo: TrackIn
     });
 }
 
-// Transcode video using FFmpeg
-async function transcodeVideo(inputPath: string, outputPath: string, trackInfo: TrackInfo): Promise<void> {
-    log(chalk.magenta(`🔄 Transcoding: ${chalk.bold(trackInfo.title)}`));
+// Helper function to update a track's progress from a chunk of FFmpeg's stderr (output is everything so far).
+// The duration is read from the output unless only part of the input is transcoded
+function updateFfmpegProgress(text: string, output: string, trackInfo: TrackInfo, rangeDuration?: number) {
+    // Try to parse FFmpeg progress information
+    const timeMatch = text.match(/time=(\d+:\d+:\d+\.\d+)/);
+    if (timeMatch) {
+        const time = timeMatch[1];
+        
+        // Look for duration in the accumulated output
+        const durationMatch = output.match(/Duration: (\d+:\d+:\d+\.\d+)/);
+        
+        if (durationMatch || rangeDuration) {
+            // Convert time and duration to seconds
+            const timeSeconds = timeToSeconds(time);
+            const durationSeconds = rangeDuration || timeToSeconds(durationMatch![1]);
+            
+            if (durationSeconds > 0) {
+                const percent = (timeSeconds / durationSeconds) * 100;
+                trackInfo.progress = percent;
+                
+                // Calculate ETA
+                const remainingSeconds = durationSeconds - timeSeconds;
+                if (remainingSeconds > 0) {
+                    trackInfo.eta = formatTime(remainingSeconds);
+                }
+                
+                activeDownloads.set(trackInfo.url, trackInfo);
+                updateActiveDownloads(activeDownloads);
+            }
+        }
+    }
+}
+
+// Loudness target of this run as recorded in the state file, undefined when normalization is off
+function getLoudnessTarget(): string | undefined {
+    if (!config.loudness.enabled) {
+        return undefined;
+    }
+    const { target, truePeak, range } = config.loudness;
+    return `${target} LUFS / ${truePeak} dBTP / ${range} LU`;
+}
+
+// Run an audio filter over a track's first audio stream without writing output; returns ffmpeg's log,
+// where analysis filters like loudnorm and silencedetect print their results
+async function analyzeAudio(inputPath: string, audioFilter: string, trackInfo: TrackInfo): Promise<string> {
+    trackInfo.status = 'measuring';
+    trackInfo.progress = 0;
+    trackInfo.eta = undefined;
+    activeDownloads.set(trackInfo.url, trackInfo);
+    updateActiveDownloads(activeDownloads);
+    
+    const analysisProcess = processRunner.spawn('ffmpeg', [
+        '-hide_banner',
+        '-i', inputPath,
+        '-map', '0:a:0',
+        '-filter:a', audioFilter,
+        '-f', 'null', '-'
+    ], { stdio: 'pipe' });
+    activeProcesses.add(analysisProcess);
+    trackInfo.process = analysisProcess;
+    
+    return new Promise<string>((resolve, reject) => {
+        let analysisOutput = '';
+        
+        if (analysisProcess.stderr) {
+            analysisProcess.stderr.on('data', (data) => {
+                const text = data.toString();
+                analysisOutput += text;
+                updateFfmpegProgress(text, analysisOutput, trackInfo);
+            });
+        }
+        
+        analysisProcess.on('close', (code) => {
+            activeProcesses.delete(analysisProcess);
+            if (code === 0) {
+                resolve(analysisOutput);
+            } else {
+                const error = new Error(`Audio analysis failed with code ${code}`);
+                (error as any).stderr = analysisOutput.slice(-500);
+                reject(error);
+            }
+        });
+        
+        analysisProcess.on('error', (error) => {
+            activeProcesses.delete(analysisProcess);
+            reject(error);
+        });
+    });
+}
+
+// Measure a track's loudness with loudnorm's first pass; undefined when there is nothing to measure (silence)
+async function measureLoudness(inputPath: string, trackInfo: TrackInfo): Promise<LoudnessMeasurement | undefined> {
+    log(chalk.magenta(`📏 Measuring loudness: ${chalk.bold(trackInfo.title)}`));
+    const { target, truePeak, range } = config.loudness;
+    const output = await analyzeAudio(inputPath, `loudnorm=I=${target}:TP=${truePeak}:LRA=${range}:print_format=json`, trackInfo);
+    
+    // The measurement is a JSON block at the end of the output
+    const start = output.lastIndexOf('{');
+    if (start === -1) {
+        throw new Error('Loudness measurement printed no results');
+    }
+    const values = safeJsonParse(output.substring(start, output.lastIndexOf('}') + 1));
+    const measurement: LoudnessMeasurement = {
+        integrated: parseFloat(values.input_i),
+        truePeak: parseFloat(values.input_tp),
+        range: parseFloat(values.input_lra),
+        threshold: parseFloat(values.input_thresh)
+    };
+    // Silent audio measures as "-inf"
+    return Object.values(measurement).every(Number.isFinite) ? measurement : undefined;
+}
+
+// Second-pass loudnorm filter for a track, measuring it first unless the state file has its loudness
+async function getLoudnessFilter(key: string, url: string, inputPath: string, trackInfo: TrackInfo): Promise<string | undefined> {
+    if (!config.loudness.enabled) {
+        return undefined;
+    }
+    let measurement = appState.tracks[key]?.loudness;
+    if (!measurement) {
+        measurement = await measureLoudness(inputPath, trackInfo);
+        if (!measurement) {
+            log(chalk.yellow(`⚠ No measurable audio in ${trackInfo.title}, leaving its volume as is`));
+            return undefined;
+        }
+        appState.tracks[key] = { ...(appState.tracks[key] ?? { downloaded: false, url }), loudness: measurement };
+        saveState();
+    }
+    
+    const { integrated, truePeak, range, threshold } = measurement;
+    log(chalk.gray(`🔊 ${trackInfo.title}: ${integrated} LUFS, ${truePeak} dBTP, normalizing to ${getLoudnessTarget()}`));
+    const { target, truePeak: targetPeak, range: targetRange } = config.loudness;
+    // Linear mode applies one gain to the whole track, so the dynamics stay as mixed
+    return `loudnorm=I=${target}:TP=${targetPeak}:LRA=${targetRange}:measured_I=${integrated}:measured_TP=${truePeak}:measured_LRA=${range}:measured_thresh=${threshold}:linear=true`;
+}
+
+// Effective trim settings of a track: global, then its source's, then its own; undefined when nothing is trimmed
+function resolveTrim(track: QueuedTrack): TrimConfig | undefined {
+    const key = getTrackKey(track.url);
+    const own = Object.entries(config.trims).find(([url]) => getTrackKey(url) === key)?.[1];
+    const trim: TrimConfig = { ...config.trim, ...track.source.trim, ...own };
+    const trims = trim.start !== undefined || trim.end !== undefined || (trim.cut ?? []).length > 0 || trim.silence;
+    return trims ? trim : undefined;
+}
+
+// Trim settings as recorded in the state file, to notice when they change
+function getTrimSetting(track: QueuedTrack): string | undefined {
+    const trim = resolveTrim(track);
+    return trim && JSON.stringify(trim);
+}
+
+// Find silence at the start and end of a track with silencedetect
+async function detectSilence(inputPath: string, trackInfo: TrackInfo): Promise<SilenceState> {
+    log(chalk.magenta(`🔇 Detecting silence: ${chalk.bold(trackInfo.title)}`));
+    const output = await analyzeAudio(inputPath, `silencedetect=noise=${silenceThreshold}:d=${minSilence}`, trackInfo);
+    
+    const duration = timeToSeconds(output.match(/Duration: (\d+:\d+:\d+\.\d+)/)?.[1] ?? '');
+    const times = (name: string) => (output.match(new RegExp(`${name}: -?[\\d.]+`, 'g')) ?? []).map(match => parseFloat(match.split(': ')[1]));
+    const starts = times('silence_start');
+    const ends = times('silence_end');
+    
+    const silence: SilenceState = { start: 0 };
+    if (starts.length > 0 && starts[0] <= 0.1 && ends.length > 0) {
+        silence.start = ends[0];
+    }
+    // Silence running into the end of the file has no silence_end, or one at the very end
+    const lastStart = starts[starts.length - 1];
+    if (lastStart > silence.start && (ends.length < starts.length || (duration > 0 && ends[ends.length - 1] >= duration - 0.1))) {
+        silence.end = lastStart;
+    }
+    return silence;
+}
+
+// Ranges of a track's source to keep according to its trim settings, detecting silence first if asked to
+async function getTrimSegments(key: string, url: string, trim: TrimConfig, inputPath: string, duration: number, trackInfo: TrackInfo): Promise<Segment[]> {
+    let silence: SilenceState | undefined;
+    if (trim.silence) {
+        silence = appState.tracks[key]?.silence;
+        if (!silence) {
+            silence = await detectSilence(inputPath, trackInfo);
+            appState.tracks[key] = { ...(appState.tracks[key] ?? { downloaded: false, url }), silence };
+            saveState();
+        }
+    }
+    
+    const total = duration || Infinity;
+    const end = trim.end !== undefined ? parseTrimTime(trim.end) : total;
+    let segments: Segment[] = [[
+        Math.max(trim.start !== undefined ? parseTrimTime(trim.start) : 0, silence?.start ?? 0),
+        Math.min(end < 0 ? total + end : end, silence?.end ?? Infinity, total)
+    ]];
+    for (const [from, to] of (trim.cut ?? []).map(range => parseCutRange(range)!)) {
+        segments = segments.flatMap(([start, stop]): Segment[] => [[start, Math.min(stop, from)], [Math.max(start, to), stop]]);
+    }
+    // Leftovers of a few frames aren't worth a segment
+    segments = segments.filter(([start, stop]) => stop - start > 0.05);
+    if (segments.length === 0) {
+        throw new Error(`Trim settings leave nothing of ${trackInfo.title}`);
+    }
+    return segments;
+}
+
+// How to transcode the part of a source from "from" to "to" (a chapter, or the whole track) after trimming:
+// where to seek to and stop, the segments to keep in between and the resulting duration. Undefined if nothing is left
+function planTrimmedRange(segments: Segment[], from: number, to: number): { start?: number; end?: number; segments?: Segment[]; duration?: number } | undefined {
+    const kept = segments
+        .map(([start, stop]): Segment => [Math.max(start, from), Math.min(stop, to)])
+        .filter(([start, stop]) => stop > start);
+    if (kept.length === 0) {
+        return undefined;
+    }
+    const start = kept[0][0];
+    const end = kept[kept.length - 1][1];
+    const duration = kept.reduce((total, [segmentStart, segmentStop]) => total + segmentStop - segmentStart, 0);
+    return {
+        start: start || undefined,
+        end: Number.isFinite(end) ? end : undefined,
+        segments: kept.length > 1 ? kept.map(([segmentStart, segmentStop]): Segment => [segmentStart - start, segmentStop - start]) : undefined,
+        duration: Number.isFinite(duration) ? Math.round(duration * 1000) / 1000 : undefined
+    };
+}
+
+// Transcode video using FFmpeg
+async function transcodeVideo(inputPath: string, outputPath: string, trackInfo: TrackInfo, settings: OutputSettings, options: TranscodeOptions = {}): Promise<void> {
+    if (options.mode === 'copy') {
+        log(chalk.magenta(`📦 Remuxing (source already fits the profile): ${chalk.bold(trackInfo.title)}`));
+    } else if (options.mode === 'audio') {
+        log(chalk.magenta(`🔄 Transcoding audio only (video already fits the profile): ${chalk.bold(trackInfo.title)}`));
+    } else {
+        log(chalk.magenta(`🔄 Transcoding: ${chalk.bold(trackInfo.title)}`));
+    }
+    
+    // Update status to transcoding
+    trackInfo.status = 'transcoding';
+    activeDownloads.set(trackInfo.url, trackInfo);
+    updateActiveDownloads(activeDownloads);
+    
+    // Build FFmpeg arguments
+    const ffmpegArgs = buildFfmpegArgs(inputPath, outputPath, settings, options);
+    const rangeDuration = options.segments
+        ? options.segments.reduce((total, [from, to]) => total + to - from, 0)
+        : options.end !== undefined ? options.end - (options.start ?? 0) : undefined;
+    
+    const transcodeProcess = processRunner.spawn('ffmpeg', ffmpegArgs, { stdio: 'pipe' });
+    activeProcesses.add(transcodeProcess);
+    trackInfo.process = transcodeProcess;
+    activeDownloads.set(trackInfo.url, trackInfo);
+    
+    // Wait for transcoding to complete
+    await new Promise<void>((resolve, reject) => {
+        let transcodeOutput = '';
+        
+        if (transcodeProcess.stdout) {
+            transcodeProcess.stdout.on('data', (data) => {
+                transcodeOutput += data.toString();
+            });
+        }
+        
+        if (transcodeProcess.stderr) {
+            transcodeProcess.stderr.on('data', (data) => {
+                const text = data.toString();
+                // FFmpeg outputs progress to stderr
+                transcodeOutput += text;
+                
+                updateFfmpegProgress(text, transcodeOutput, trackInfo, rangeDuration);
+            });
+        }
+        
+        transcodeProcess.on('close', (code) => {
+            activeProcesses.delete(transcodeProcess);
+            if (code === 0) {
+                resolve();
+            } else {
+                const error = new Error(`Transcoding failed with code ${code}`);
+                (error as any).stderr = transcodeOutput;
+                log(chalk.red(`FFmpeg failed stderr: ${(error as any).stderr?.slice(-500)}`));
+                reject(error);
+            }
+        });
+        
+        transcodeProcess.on('error', (error) => {
+            activeProcesses.delete(transcodeProcess);
+            reject(error);
+        });
+    });
+}
+
+// Encoders overshoot the requested bitrate a little
+const verifyBitrateTolerance = 1.1;
+
+// Container (as ffprobe names it) expected for each output extension
+const outputFormats: { [extension: string]: string } = {
+    '.mp4': 'mp4',
+    '.m4a': 'mp4',
+    '.mkv': 'matroska',
+    '.mp3': 'mp3'
+};
+
+// Files of one output (a track, its parts, or one track of a split set) and the duration they should add up to
+interface OutputCheck {
+    files: string[];
+    duration?: number;
+}
+
+// Decode a few seconds at the start or the end of a file; -xerror stops ffmpeg at the first broken frame
+async function testDecode(filePath: string, position: 'start' | 'end'): Promise<void> {
+    const seconds = String(config.verify.decodeSeconds);
+    await execAsync('ffmpeg', [
+        '-v', 'error',
+        '-xerror',
+        ...(position === 'start' ? ['-t', seconds] : ['-sseof', `-${seconds}`]),
+        '-i', filePath,
+        '-f', 'null', '-'
+    ]);
+}
+
+// Problems with one output file (container, streams outside the profile, decode errors) and its duration
+async function checkOutputFile(filePath: string, settings: OutputSettings): Promise<{ problems: string[]; duration?: number }> {
+    let probe: MediaProbe;
+    try {
+        probe = await probeMedia(filePath);
+    } catch (error) {
+        const errorMessage = error instanceof Error ? error.message : String(error);
+        return { problems: [`not readable: ${errorMessage}`] };
+    }
+    
+    const problems: string[] = [];
+    const format = outputFormats[path.extname(filePath).toLowerCase()];
+    if (format && !probe.formats.includes(format)) {
+        problems.push(`container ${probe.formats.join(',')} instead of ${format}`);
+    }
+    if (settings.mediaType === 'video') {
+        problems.push(...(probe.video ? getVideoMismatches(probe.video, settings.videoFormat, verifyBitrateTolerance) : ['no video stream']));
+    }
+    problems.push(...(probe.audio ? getAudioMismatches(probe.audio, getAudioTarget(settings), verifyBitrateTolerance) : ['no audio stream']));
+    
+    if (config.verify.decodeSeconds > 0) {
+        for (const position of ['start', 'end'] as const) {
+            try {
+                await testDecode(filePath, position);
+            } catch (error) {
+                const errorMessage = (error as any)?.stderr?.trim().split('\n')[0] || (error instanceof Error ? error.message : String(error));
+                problems.push(`decoding failed at the ${position}: ${errorMessage}`);
+            }
+        }
+    }
+    return { problems, duration: probe.duration };
+}
+
+// Check outputs against the profile and their expected durations; returns the problems found,
+// prefixed with the file name when there are several files
+async function findOutputProblems(outputs: OutputCheck[], settings: OutputSettings): Promise<string[]> {
+    const problems: string[] = [];
+    const named = outputs.length > 1 || outputs.some(output => output.files.length > 1);
+    const prefix = (file: string) => named ? `${path.basename(file)}: ` : '';
+    
+    for (const output of outputs) {
+        let total = 0;
+        for (const file of output.files) {
+            if (!fs.existsSync(file)) {
+                problems.push(`${prefix(file)}missing`);
+                continue;
+            }
+            const result = await checkOutputFile(file, settings);
+            problems.push(...result.problems.map(problem => prefix(file) + problem));
+            total += result.duration ?? 0;
+        }
+        if (output.duration && Math.abs(total - output.duration) > config.verify.durationTolerance) {
+            problems.push(`${prefix(output.files[0])}duration ${total.toFixed(1)}s instead of ${output.duration.toFixed(1)}s`);
+        }
+    }
+    return problems;
+}
+
+// Verify a track's outputs before they replace anything in the library; throws with every problem found
+async function verifyTrackOutputs(outputs: OutputCheck[], settings: OutputSettings, trackInfo: TrackInfo): Promise<void> {
+    log(chalk.magenta(`🔍 Verifying: ${chalk.bold(trackInfo.title)}`));
+    trackInfo.status = 'verifying';
+    trackInfo.progress = undefined;
+    trackInfo.eta = undefined;
+    activeDownloads.set(trackInfo.url, trackInfo);
+    updateActiveDownloads(activeDownloads);
+    
+    const problems = await findOutputProblems(outputs, settings);
+    if (problems.length > 0) {
+        throw new Error(`Output check failed: ${problems.join('; ')}`);
+    }
+}
+
+// Parse a size like "4G" or "700M" into bytes; "" means no limit (0)
+function parseSize(size: string): number {
+    const match = size.match(sizePattern);
+    if (!match) {
+        return 0;
+    }
+    const multipliers: { [unit: string]: number } = { '': 1, k: 1024, m: 1024 ** 2, g: 1024 ** 3 };
+    return Math.floor(parseFloat(match[1]) * multipliers[match[2].toLowerCase()]);
+}
+
+// Make a file or folder name FAT-safe: no control characters or trailing dots/spaces, at most maxLength characters
+function fitName(name: string, maxLength: number): string {
+    const cleaned = name.replace(/[\x00-\x1f\x7f]/g, '');
+    return (maxLength > 0 ? cleaned.substring(0, maxLength) : cleaned).replace(/[. ]+$/, '');
+}
+
+// Room kept in file names for the " (Part N)" suffix of split outputs
+const partSuffixLength = ' (Part 99)'.length;
+
+// Files making up a track: its path, numbered parts of it when the output was split to fit the filesystem,
+// or the tracks in its folder when a set was split by chapters
+function getTrackFiles(relativePath: string, layout: { parts?: number; chapters?: ChapterState[] } = {}): string[] {
+    const { parts, chapters } = layout;
+    if (chapters) {
+        return chapters.map(chapter => path.join(relativePath, chapter.file));
+    }
+    if (!parts || parts < 2) {
+        return [relativePath];
+    }
+    const extension = path.extname(relativePath);
+    const base = relativePath.substring(0, relativePath.length - extension.length);
+    return Array.from({ length: parts }, (_, index) => `${base} (Part ${index + 1})${extension}`);
+}
+
+// Split an output too large for the filesystem into parts at keyframes; returns the files to keep, in order
+async function splitOversizedOutput(outputPath: string, duration: number, trackInfo: TrackInfo): Promise<string[]> {
+    const maxSize = parseSize(config.filesystem.maxFileSize);
+    const size = fs.statSync(outputPath).size;
+    if (!maxSize || size < maxSize) {
+        return [outputPath];
+    }
+    if (!duration) {
+        throw new Error(`Output is larger than ${config.filesystem.maxFileSize} and its duration is unknown, can't split it`);
+    }
+    
+    const extension = path.extname(outputPath);
+    const base = outputPath.substring(0, outputPath.length - extension.length);
+    const listParts = () => {
+        const parts: string[] = [];
+        for (let part = 1; fs.existsSync(`${base}_part${String(part).padStart(3, '0')}${extension}`); part++) {
+            parts.push(`${base}_part${String(part).padStart(3, '0')}${extension}`);
+        }
+        return parts;
+    };
+    
+    // Cuts only happen at keyframes and the bitrate varies, so retry with shorter parts until every part fits
+    for (const fill of [0.9, 0.75, 0.5]) {
+        listParts().forEach(part => fs.removeSync(part));
+        const segmentTime = Math.max(1, Math.floor(duration * fill * maxSize / size));
+        log(chalk.magenta(`✂ Splitting ${chalk.bold(trackInfo.title)} into ${formatTime(segmentTime)} parts (${(size / 1024 ** 3).toFixed(1)} GiB)`));
+        await execAsync('ffmpeg', [
+            '-y', '-i', outputPath,
+            '-map', '0', '-c', 'copy',
+            '-f', 'segment', '-segment_time', String(segmentTime),
+            '-reset_timestamps', '1', '-segment_start_number', '1',
+            `${base.replace(/%/g, '%%')}_part%03d${extension}`
+        ]);
+        const parts = listParts();
+        if (parts.length > 0 && parts.every(part => fs.statSync(part).size < maxSize)) {
+            fs.removeSync(outputPath);
+            return parts;
+        }
+    }
+    listParts().forEach(part => fs.removeSync(part));
+    throw new Error(`Could not split the output into parts smaller than ${config.filesystem.maxFileSize}`);
+}
+
+// A track of a set before it has a file
+type Chapter = Omit<ChapterState, 'file'>;
+
+// Chapters the uploader set on the video, from the yt-dlp metadata
+function getMetadataChapters(info: any): Chapter[] {
+    return (Array.isArray(info.chapters) ? info.chapters : [])
+        .filter((chapter: any) => typeof chapter.start_time === 'number')
+        .map((chapter: any) => ({ title: String(chapter.title ?? '').trim(), start: chapter.start_time }));
+}
+
+// Tracklist from timestamps in the description, one track per line: "12:34 Artist - Title", "[1:02:03] Title",
+// "03. Title (12:34)"
+function parseDescriptionChapters(description: string): Chapter[] {
+    const chapters: Chapter[] = [];
+    for (const line of description.split(/\r?\n/)) {
+        const match = line.match(/[\[(]?\b((?:\d{1,2}:)?\d{1,2}:\d{2})\b[\])]?/);
+        if (!match) {
+            continue;
+        }
+        const title = (line.substring(0, match.index) + ' ' + line.substring(match.index! + match[0].length))
+            // Leading track numbers and separators around the removed timestamp
+            .replace(/^\s*(\d{1,3}[.)]\s+)?[-–—:|.\s]*/, '')
+            .replace(/[-–—:|\s]+$/, '');
+        chapters.push({ title, start: timeToSeconds(match[1]) });
+    }
+    return chapters;
+}
+
+// Tracks of a cue sheet; INDEX 01 times are minutes:seconds:frames with 75 frames per second
+function parseCueSheet(text: string): Chapter[] {
+    const chapters: Chapter[] = [];
+    let albumPerformer: string | undefined;
+    let current: { title?: string; artist?: string } | undefined;
+    for (const line of text.split(/\r?\n/).map(line => line.trim())) {
+        const field = line.match(/^(TITLE|PERFORMER)\s+(?:"(.*)"|(.*))$/i);
+        if (/^TRACK\s+\d+/i.test(line)) {
+            current = {};
+        } else if (field) {
+            const value = (field[2] ?? field[3]).trim();
+            if (field[1].toUpperCase() === 'TITLE') {
+                if (current) current.title = value;
+            } else if (current) {
+                current.artist = value;
+            } else {
+                albumPerformer = value;
+            }
+        } else if (current) {
+            const index = line.match(/^INDEX\s+01\s+(\d+):(\d{2}):(\d{2})$/i);
+            if (index) {
+                const [, minutes, seconds, frames] = index.map(Number);
+                chapters.push({
+                    title: current.title ?? '',
+                    artist: current.artist ?? albumPerformer,
+                    start: minutes * 60 + seconds + frames / 75
+                });
+                current = undefined;
+            }
+        }
+    }
+    return chapters;
+}
+
+// Resolve a path from the config file relative to the file's folder
+function resolveConfigRelativePath(file: string): string {
+    const configPath = getConfigPath();
+    return path.resolve(configPath ? path.dirname(configPath) : __dirname, file);
+}
+
+// Tracks of a set according to the source's split setting. Fewer than two means there's nothing to split
+function findChapters(split: string, info: any, duration: number): Chapter[] {
+    let chapters: Chapter[] = [];
+    if (split.toLowerCase().endsWith('.cue')) {
+        const cuePath = resolveConfigRelativePath(split);
+        if (!fs.existsSync(cuePath)) {
+            throw new Error(`Cue sheet not found: ${cuePath}`);
+        }
+        chapters = parseCueSheet(fs.readFileSync(cuePath, 'utf8'));
+    } else {
+        if (split !== 'description') {
+            chapters = getMetadataChapters(info);
+        }
+        if (split === 'description' || (split === 'auto' && chapters.length < 2)) {
+            chapters = parseDescriptionChapters(String(info.description ?? ''));
+        }
+    }
+    
+    // Ignore timestamps that go backwards or past the end (dates, "at 12:30" mentions), then let each
+    // track run until the next one starts. The first one starts at 0 so no intro gets lost
+    const ordered = chapters.filter((chapter, index) =>
+        chapters.slice(0, index).every(previous => previous.start < chapter.start) && (!duration || chapter.start < duration));
+    return ordered.map((chapter, index) => ({
+        ...chapter,
+        title: chapter.title || `Track ${index + 1}`,
+        start: index === 0 ? 0 : chapter.start,
+        end: ordered[index + 1]?.start ?? (duration || undefined)
+    }));
+}
+
+// Name the tracks of a split set inside its folder: "01 - Title.mp4"
+function nameChapterFiles(chapters: Chapter[], folder: string, extension: string, rules: FileNameConfig): ChapterState[] {
+    const { maxFileNameLength, maxPathLength } = config.filesystem;
+    const width = Math.max(2, String(chapters.length).length);
+    let nameLength = Infinity;
+    if (maxFileNameLength > 0) {
+        nameLength = Math.min(nameLength, maxFileNameLength - extension.length);
+    }
+    if (maxPathLength > 0) {
+        nameLength = Math.min(nameLength, maxPathLength - extension.length - folder.length - 1);
+    }
+    return chapters.map((chapter, index) => {
+        const number = String(index + 1).padStart(width, '0');
+        const name = fitName(`${number} - ${sanitizeFilename(chapter.title, rules)}`, Math.max(nameLength, width));
+        return { ...chapter, file: `${name.replace(/ -$/, '')}${extension}` };
+    });
+}
+
+// Tags of one track of a split set: its own title, artist and number, with the set as the album
+function buildChapterTags(tags: TrackTags | undefined, chapter: ChapterState, index: number, count: number, setTitle: string): TrackTags | undefined {
+    if (!tags) {
+        return undefined;
+    }
+    return {
+        ...tags,
+        title: chapter.title,
+        ...(chapter.artist ? { artist: chapter.artist } : {}),
+        album: setTitle,
+        track: `${index + 1}/${count}`
+    };
+}
+
+// Extension of a track's output; a set split by chapters is stored as a folder and has none
+function getStoredExtension(state: TrackState): string {
+    return state.chapters ? '' : path.extname(state.file ?? '');
+}
+
+// Output path of a track relative to the download directory from its file name, e.g. "Topz/03 - Title.mp4"
+function getTrackRelativePath(track: QueuedTrack, fileName: string, extension: string, nameSuffix = ''): string {
+    const { maxFileSize, maxFileNameLength, maxPathLength, maxFilesPerFolder } = config.filesystem;
+    let folder = config.output.singlesFolder;
+    let position = track.videoIndex;
+    let count = track.videoCount;
+    
+    if (track.playlistTitle !== undefined) {
+        folder = config.output.playlistFolders ? fitName(sanitizeFilename(track.playlistTitle), maxFileNameLength) || 'Playlist' : '';
+        position = track.playlistIndex;
+        count = track.playlistSize;
+    }
+    
+    // Head units that only show the first N files of a folder get numbered subfolders of N tracks each
+    if (maxFilesPerFolder > 0 && position && (count ?? position) > maxFilesPerFolder) {
+        folder = path.join(folder, String(Math.ceil(position / maxFilesPerFolder)).padStart(2, '0'));
+    }
+    
+    // Shorten the name until it and the whole path fit
+    const reserved = nameSuffix.length + extension.length + (parseSize(maxFileSize) ? partSuffixLength : 0);
+    let nameLength = fileName.length;
+    if (maxFileNameLength > 0) {
+        nameLength = Math.min(nameLength, maxFileNameLength - reserved);
+    }
+    if (maxPathLength > 0) {
+        nameLength = Math.min(nameLength, maxPathLength - reserved - (folder ? folder.length + 1 : 0));
+    }
+    const name = fitName(fileName, Math.max(nameLength, 1));
+    return path.join(folder, `${name}${nameSuffix}${extension}`);
+}
+
+// Output paths claimed by downloads still in progress (lowercased), so two new tracks can't pick the same name
+const reservedOutputPaths = new Map<string, string>();
+
+// Short, stable ID of a track for file names: the YouTube video ID, or a hash of the key for other sites
+function getTrackId(key: string): string {
+    return key.startsWith('youtube:')
+        ? key.substring('youtube:'.length)
+        : crypto.createHash('sha1').update(key).digest('hex').substring(0, 8);
+}
+
+// Whether the download directory holds a path in any letter case. The library is copied to FAT, where
+// "song.mp4" and "Song.mp4" are the same file even if they aren't here
+function existsIgnoringCase(relativePath: string): boolean {
+    let directory = downloadDirectory;
+    for (const name of relativePath.split(path.sep)) {
+        const entries = fs.existsSync(directory) && fs.statSync(directory).isDirectory() ? fs.readdirSync(directory) : [];
+        const entry = entries.find(candidate => candidate.toLowerCase() === name.toLowerCase());
+        if (!entry) {
+            return false;
+        }
+        directory = path.join(directory, entry);
+    }
+    return true;
+}
+
+// Check whether another track uses a path: in the state file, in a running download, or an unknown file on disk.
+// FAT is case-insensitive, so paths differing only in case collide too
+function isOutputPathTaken(key: string, relativePath: string): boolean {
+    // Split outputs live under "<name> (Part N)" instead of the path itself
+    const paths = [relativePath, getTrackFiles(relativePath, { parts: 2 })[0]];
+    const candidates = paths.map(file => file.toLowerCase());
+    const trackFiles = (state?: TrackState) => state?.file
+        ? [...getTrackFiles(state.file, state), ...(state.links ?? [])].map(file => file.toLowerCase())
+        : [];
+    // A split set's folder is taken by anything inside it as well
+    const isTaken = (file: string) => candidates.includes(file) || file.startsWith(candidates[0] + path.sep);
     
-    // Update status to transcoding
-    trackInfo.status = 'transcoding';
-    activeDownloads.set(trackInfo.url, trackInfo);
-    updateActiveDownloads(activeDownloads);
+    for (const [otherKey, state] of Object.entries(appState.tracks)) {
+        if (otherKey !== key && trackFiles(state).some(isTaken)) {
+            return true;
+        }
+    }
+    if (candidates.some(candidate => (reservedOutputPaths.get(candidate) ?? key) !== key)) {
+        return true;
+    }
+    const ownFiles = [...trackFiles(appState.tracks[key]), appState.tracks[key]?.file?.toLowerCase()];
+    return paths.some(file => !ownFiles.includes(file.toLowerCase()) && existsIgnoringCase(file));
+}
+
+// Pick a track's output path, adding its video ID to the name when another track already has that name
+function chooseTrackRelativePath(key: string, track: QueuedTrack, fileName: string, extension: string, nameSuffix = ''): { relativePath: string; nameSuffix: string } {
+    const id = getTrackId(key);
+    const suffixes = [nameSuffix, ` [${id}]`, ...Array.from({ length: 98 }, (_, index) => ` [${id}-${index + 2}]`)];
+    for (const suffix of suffixes) {
+        const relativePath = getTrackRelativePath(track, fileName, extension, suffix);
+        if (!isOutputPathTaken(key, relativePath)) {
+            return { relativePath, nameSuffix: suffix };
+        }
+    }
+    throw new Error(`No free file name for ${fileName}${extension}`);
+}
+
+// Remove folders left empty after moving or deleting files, stopping at the root (the download directory by default)
+function removeEmptyDirectories(dir: string, root = downloadDirectory) {
+    while (dir.startsWith(root + path.sep) && fs.existsSync(dir) && fs.readdirSync(dir).length === 0) {
+        fs.rmdirSync(dir);
+        dir = path.dirname(dir);
+    }
+}
+
+// Move an already finished track to its current location (playlist renamed or reordered)
+function relocateTrackFile(url: string, relativePath: string) {
+    const state = appState.tracks[getTrackKey(url)];
+    const targets = getTrackFiles(relativePath, state);
     
-    // Build FFmpeg arguments
-    const ffmpegArgs = buildFfmpegArgs(inputPath, outputPath);
+    log(chalk.blue(`📁 Moving ${state.file} -> ${relativePath}`));
+    try {
+        getTrackFiles(state.file!, state).forEach((file, index) => {
+            const from = path.join(downloadDirectory, file);
+            const to = path.join(downloadDirectory, targets[index]);
+            // The destination may be one of this track's own duplicates (a hardlink of the same file)
+            fs.removeSync(to);
+            fs.moveSync(from, to);
+            removeEmptyDirectories(path.dirname(from));
+        });
+    } catch (error) {
+        log(chalk.yellow(`⚠ Could not move ${state.file}, keeping it in place: ${error}`));
+        return;
+    }
     
-    const transcodeProcess = spawn('ffmpeg', ffmpegArgs, { stdio: 'pipe' });
-    activeProcesses.add(transcodeProcess);
-    trackInfo.process = transcodeProcess;
-    activeDownloads.set(trackInfo.url, trackInfo);
+    state.file = relativePath;
+    saveState();
+}
+
+// Check whether a hardlink or copy still matches the file it was made from
+function isLinkCurrent(filePath: string, linkPath: string): boolean {
+    if (!fs.existsSync(linkPath)) {
+        return false;
+    }
+    const file = fs.statSync(filePath);
+    const link = fs.statSync(linkPath);
+    return file.ino === link.ino || (file.size === link.size && link.mtimeMs >= file.mtimeMs);
+}
+
+// Give every other playlist listing the track a hardlink or copy of its file
+function syncTrackLinks(track: QueuedTrack) {
+    const key = getTrackKey(track.url);
+    const state = appState.tracks[key];
+    if (!state?.file || !state.title) {
+        return;
+    }
+    const files = getTrackFiles(state.file, state);
+    const info = getStoredNamingInfo(key, state);
+    const rules = resolveOutputSettings(track.source).fileNames;
+    const extension = getStoredExtension(state);
+    // Each wanted link paired with the file (or part) it copies
+    const wantedPairs = config.output.duplicates === 'single'
+        ? []
+        : (track.alsoIn ?? [])
+            .map(other => getTrackRelativePath(other, renderTrackFileName(info, other, rules), extension, state.nameSuffix))
+            .filter(link => link !== state.file)
+            .filter(link => {
+                if (!isOutputPathTaken(key, link)) {
+                    return true;
+                }
+                log(chalk.yellow(`⚠ Not linking ${link}: another track uses that name`));
+                return false;
+            })
+            .flatMap(link => getTrackFiles(link, state).map((linkFile, index) => ({ link: linkFile, file: files[index] })));
+    const wanted = wantedPairs.map(pair => pair.link);
     
-    // Wait for transcoding to complete
-    await new Promise<void>((resolve, reject) => {
-        let transcodeOutput = '';
-        
-        if (transcodeProcess.stdout) {
-            transcodeProcess.stdout.on('data', (data) => {
-                transcodeOutput += data.toString();
-            });
+    try {
+        // Drop links for playlists that no longer list the track
+        for (const stale of (state.links ?? []).filter(link => !wanted.includes(link) && !files.includes(link))) {
+            const stalePath = path.join(downloadDirectory, stale);
+            fs.removeSync(stalePath);
+            removeEmptyDirectories(path.dirname(stalePath));
+            log(chalk.gray(`🧹 Removed duplicate: ${stale}`));
         }
         
-        if (transcodeProcess.stderr) {
-            transcodeProcess.stderr.on('data', (data) => {
-                const text = data.toString();
-                // FFmpeg outputs progress to stderr
-                transcodeOutput += text;
-                
-                // Try to parse FFmpeg progress information
-                const timeMatch = text.match(/time=(\d+:\d+:\d+\.\d+)/);
-                if (timeMatch) {
-                    const time = timeMatch[1];
-                    
-                    // Look for duration in the accumulated output
-                    const durationMatch = transcodeOutput.match(/Duration: (\d+:\d+:\d+\.\d+)/);
-                    
-                    if (durationMatch) {
-                        const duration = durationMatch[1];
-                        
-                        // Convert time and duration to seconds
-                        const timeSeconds = timeToSeconds(time);
-                        const durationSeconds = timeToSeconds(duration);
-                        
-                        if (durationSeconds > 0) {
-                            const percent = (timeSeconds / durationSeconds) * 100;
-                            trackInfo.progress = percent;
-                            
-                            // Calculate ETA
-                            const remainingSeconds = durationSeconds - timeSeconds;
-                            if (remainingSeconds > 0) {
-                                trackInfo.eta = formatTime(remainingSeconds);
-                            }
-                            
-                            activeDownloads.set(trackInfo.url, trackInfo);
-                            updateActiveDownloads(activeDownloads);
-                        }
-                    }
+        for (const { link, file } of wantedPairs) {
+            const filePath = path.join(downloadDirectory, file);
+            const linkPath = path.join(downloadDirectory, link);
+            if (isLinkCurrent(filePath, linkPath)) {
+                continue;
+            }
+            fs.ensureDirSync(path.dirname(linkPath));
+            fs.removeSync(linkPath);
+            if (config.output.duplicates === 'hardlink') {
+                try {
+                    fs.linkSync(filePath, linkPath);
+                } catch (error) {
+                    // FAT-formatted sticks and cross-device paths can't hold hardlinks
+                    log(chalk.yellow(`⚠ Could not hardlink ${link}, copying instead: ${error}`));
+                    fs.copySync(filePath, linkPath);
                 }
-            });
-        }
-        
-        transcodeProcess.on('close', (code) => {
-            activeProcesses.delete(transcodeProcess);
-            if (code === 0) {
-                resolve();
             } else {
-                const error = new Error(`Transcoding failed with code ${code}`);
-                (error as any).stderr = transcodeOutput;
-                log(chalk.red(`FFmpeg failed stderr: ${(error as any).stderr?.slice(-500)}`));
-                reject(error);
+                fs.copySync(filePath, linkPath);
             }
-        });
-        
-        transcodeProcess.on('error', (error) => {
-            activeProcesses.delete(transcodeProcess);
-            reject(error);
-        });
-    });
+            log(chalk.gray(`🔗 Linked duplicate: ${link}`));
+        }
+    } catch (error) {
+        log(chalk.yellow(`⚠ Error updating duplicates of ${state.title}: ${error}`));
+    }
+    
+    state.links = wanted.length > 0 ? wanted : undefined;
+    saveState();
 }
 
-// Finalize track by replacing original with transcoded version and updating state
-async function finalizeTrack(url: string, title: string, outputPath: string, tempOutput: string): Promise<void> {
+// Finalize track by replacing original with transcoded version (or its parts) and updating state
+async function finalizeTrack(track: QueuedTrack, metadata: TrackMetadata, outputPath: string, tempOutputs: string[], settings: OutputSettings, nameSuffix: string, chapters?: ChapterState[]): Promise<void> {
+    const { url } = track;
+    const { title, duration } = metadata;
     log(chalk.green(`✓ Finalizing: ${chalk.bold(title)}`));
     
-    // Replace original with transcoded version
-    fs.removeSync(outputPath);
-    fs.renameSync(tempOutput, outputPath);
+    // Replace original with transcoded version (a split set's tracks go into the output folder)
+    const relativePath = path.relative(downloadDirectory, outputPath);
+    const parts = !chapters && tempOutputs.length > 1 ? tempOutputs.length : undefined;
+    const files = getTrackFiles(relativePath, { parts, chapters });
+    tempOutputs.forEach((tempOutput, index) => {
+        const filePath = path.join(downloadDirectory, files[index]);
+        fs.ensureDirSync(path.dirname(filePath));
+        fs.removeSync(filePath);
+        fs.renameSync(tempOutput, filePath);
+    });
+    
+    // A re-transcode may have changed the file's location, extension or parts; drop the old files
+    const key = getTrackKey(url);
+    const previous = appState.tracks[key];
+    if (previous?.file) {
+        for (const previousFile of getTrackFiles(previous.file, previous).filter(file => !files.includes(file))) {
+            const previousPath = path.join(downloadDirectory, previousFile);
+            fs.removeSync(previousPath);
+            removeEmptyDirectories(path.dirname(previousPath));
+        }
+    }
     
     // Update state
-    appState.tracks[url] = {
+    appState.tracks[key] = {
         downloaded: true,
+        url,
         title: title,
+        file: relativePath,
+        parts,
+        split: track.source.split,
+        chapters,
+        trim: getTrimSetting(track),
+        nameSuffix: nameSuffix || undefined,
+        metadata: pickStoredMetadata(metadata.info, settings.fileNames),
+        links: previous?.links,
+        profile: settings.profileName,
+        output: settings.mediaType === 'audio'
+            ? { mediaType: 'audio', audioFormat: settings.audioFormat }
+            : { mediaType: 'video', videoFormat: settings.videoFormat },
+        duration: duration || undefined,
+        loudness: previous?.loudness,
+        normalized: getLoudnessTarget(),
+        silence: previous?.silence,
         lastAttempt: new Date().toISOString(),
+        stage: 'finalized',
         timestamp: new Date().toISOString()
     };
-    fs.writeJsonSync(stateFile, appState, { spaces: 2 });
+    saveState();
     
     // Update counters and UI
     appState.stats.completedTracks++;
     updateStatus();
     log(chalk.green(`✓ Completed: ${chalk.bold(title)}`));
+    reportTrackEvent('completed', url, { title, path: outputPath });
+}
+
+// What yt-dlp, ffmpeg and the system print for each failure class, checked in order
+// (geo blocks and age gates also say "Video unavailable")
+const errorPatterns: [ErrorCode, RegExp][] = [
+    ['disk-full', /No space left on device|ENOSPC|Disk quota exceeded/i],
+    ['geo-blocked', /available in your country|geo.?restrict|blocked it in your country/i],
+    ['age-restricted', /confirm your age|age.?restricted|inappropriate for some users/i],
+    ['unavailable', /Video unavailable|Private video|video (has been|was) removed|no longer available|account .*terminated|copyright|members.only|This video is not available/i],
+    ['extractor', /Signature extraction failed|nsig extraction failed|Unable to extract|Unsupported URL|ExtractorError|Requested format is not available|not a bot/i],
+    ['network', /HTTP Error (429|5\d\d)|Too Many Requests|timed out|Connection (reset|refused|aborted)|name resolution|Network is unreachable|ECONNRESET|ETIMEDOUT|EAI_AGAIN|ENOTFOUND|Unable to download (webpage|API page)|IncompleteRead/i],
+    ['ffmpeg', /ffmpeg|ffprobe|Transcoding failed|Audio analysis failed|Loudness measurement|Output check failed|split the output/i]
+];
+
+// Classify a track failure from the error and the output of the command that failed
+function classifyError(error: any): ErrorCode {
+    const text = [error?.stderr, error?.stdout, error instanceof Error ? error.message : String(error)]
+        .filter(Boolean)
+        .join('\n');
+    return errorPatterns.find(([, pattern]) => pattern.test(text))?.[0] ?? 'unknown';
+}
+
+// Retry policy of a failure class; settings it leaves out fall back to maxRetries and no delays
+function getRetryPolicy(errorCode: ErrorCode): RetryPolicy {
+    return { maxRetries: config.maxRetries, inRunRetries: 0, backoff: 0, retryAfter: 0, ...config.retryPolicies[errorCode] };
+}
+
+// Longest wait between syncs for a failed track, however often it failed
+const maxRetryAfterHours = 30 * 24;
+
+// Run one step of a track, retrying failures whose policy allows retries within the sync, with exponential backoff
+async function withRetries<T>(trackInfo: TrackInfo, step: () => Promise<T>): Promise<T> {
+    for (let attempt = 1; ; attempt++) {
+        try {
+            return await step();
+        } catch (error) {
+            const errorCode = classifyError(error);
+            const { inRunRetries, backoff } = getRetryPolicy(errorCode);
+            if (attempt > inRunRetries) {
+                throw error;
+            }
+            const delay = backoff * 2 ** (attempt - 1);
+            const errorMessage = error instanceof Error ? error.message : String(error);
+            log(chalk.yellow(`⚠ ${errorCode} error on ${trackInfo.title}, retrying in ${delay}s (${attempt}/${inRunRetries}): ${errorMessage}`));
+            await new Promise(resolve => setTimeout(resolve, delay * 1000));
+        }
+    }
 }
 
 // Handle track download errors
 function handleTrackError(url: string, error: any, trackInfo?: TrackInfo): void {
+    // Processes killed on exit don't count as failures; the track resumes from its last stage next time
+    if (exiting) {
+        log(chalk.yellow(`⏸ Interrupted: ${trackInfo?.title || url}`));
+        return;
+    }
+    
     const errorMessage = error instanceof Error ? error.message : String(error);
-    log(chalk.red(`❌ Error processing ${url}: ${errorMessage}`));
+    const errorCode = classifyError(error);
+    log(chalk.red(`❌ Error processing ${url} (${errorCode}): ${errorMessage}`));
     
     // Log additional error details if available
     if (error && (error as any).stdout) {
@@ -817,20 +3737,42 @@ function handleTrackError(url: string, error: any, trackInfo?: TrackInfo): void
         log(chalk.red(`Stack trace for ${url.substring(0, 30)}...: ${error.stack.split('\n')[0]}`));
     }
     
-    // Update state with error
-    appState.tracks[url] = {
+    // Later syncs wait longer after each failure, as long as the policy asks for a wait at all
+    const key = getTrackKey(url);
+    const policy = getRetryPolicy(errorCode);
+    const retries = (appState.tracks[key]?.retries || 0) + 1;
+    const waitHours = Math.min(policy.retryAfter * 2 ** (retries - 1), maxRetryAfterHours);
+    const nextAttempt = waitHours > 0 ? new Date(Date.now() + waitHours * 3600 * 1000).toISOString() : undefined;
+    if (retries >= policy.maxRetries) {
+        log(chalk.red(`✗ Giving up on ${trackInfo?.title || url} after ${retries} failed attempt(s), reset it with the retry command`));
+    } else if (nextAttempt) {
+        log(chalk.yellow(`⏳ Retrying ${trackInfo?.title || url} in a sync after ${new Date(nextAttempt).toLocaleString()}`));
+    }
+    
+    // Update state with error, keeping the rest of the entry: a track whose re-transcode failed still owns its
+    // files. The stages the track completed are kept for the retry, unless there won't be one
+    const giveUp = retries >= policy.maxRetries;
+    const previous = appState.tracks[key];
+    appState.tracks[key] = {
+        ...previous,
         downloaded: false,
-        title: trackInfo?.title,
+        url,
+        title: trackInfo && trackInfo.title !== url ? trackInfo.title : previous?.title ?? trackInfo?.title,
         error: errorMessage,
-        retries: (appState.tracks[url]?.retries || 0) + 1,
+        errorCode,
+        retries,
         lastAttempt: new Date().toISOString(),
+        nextAttempt,
+        stage: giveUp ? undefined : previous?.stage,
+        resume: giveUp ? undefined : previous?.resume,
         timestamp: new Date().toISOString()
     };
-    fs.writeJsonSync(stateFile, appState, { spaces: 2 });
+    saveState();
     
     // Update counters and UI
     appState.stats.errorTracks++;
     updateStatus();
+    reportTrackEvent('failed', url, { title: trackInfo?.title, error: errorMessage, errorCode, retries, nextAttempt });
     
     // Remove from active downloads
     if (trackInfo) {
@@ -839,39 +3781,162 @@ function handleTrackError(url: string, error: any, trackInfo?: TrackInfo): void
     }
 }
 
-async function downloadTrack(url: string): Promise<void> {
+// Fields for naming an already downloaded track. Entries only keep the fields the templates used when they were
+// stored (older versions only the title), so for a template that uses more, the metadata is fetched once and
+// kept. Undefined when that fails: keep the old name
+async function getNamingInfo(key: string, url: string, rules: FileNameConfig): Promise<any> {
+    const state = appState.tracks[key];
+    const info = getStoredNamingInfo(key, state);
+    if (getTemplateFieldNames(rules.template).every(field => field in info)) {
+        return info;
+    }
+    try {
+        state.metadata = { ...state.metadata, ...pickStoredMetadata((await fetchMetadata(url)).info, rules) };
+        saveState();
+        return state.metadata;
+    } catch (error) {
+        log(chalk.yellow(`⚠ Could not fetch metadata to rename ${state.title || url}, keeping its name: ${error}`));
+        return undefined;
+    }
+}
+
+// Record that a track completed a pipeline stage, so an interrupted sync resumes after it
+function saveTrackStage(url: string, title: string, stage: PipelineStage, resume: ResumeState) {
+    const key = getTrackKey(url);
+    const state = appState.tracks[key];
+    appState.tracks[key] = state ? { ...state, stage, resume } : { downloaded: false, url, title, stage, resume };
+    saveState();
+}
+
+// Metadata an interrupted sync saved in the temp directory, undefined when it's missing or was cut short
+function loadSavedMetadata(filePath: string): TrackMetadata | undefined {
+    try {
+        const info = fs.readJsonSync(filePath);
+        return { title: info.title, duration: info.duration || 0, info };
+    } catch (error) {
+        return undefined;
+    }
+}
+
+// Remove the temporary files whose names start with the prefix
+function removeTempFiles(prefix: string) {
+    for (const file of fs.readdirSync(tempDirectory).filter(file => file.startsWith(prefix))) {
+        fs.removeSync(path.join(tempDirectory, file));
+        log(chalk.gray(`🧹 Cleaned up temporary file: ${file}`));
+    }
+}
+
+// Remove temp files no interrupted track can resume from: leftovers of finished, abandoned or removed tracks,
+// and partial transcodes, which ffmpeg can't continue
+function collectTempGarbage() {
+    const resumable = Object.entries(appState.tracks)
+        .filter(([, state]) => state.resume)
+        .map(([key, state]) => ({ tempName: sanitizeFilename(key), state }));
+    let removed = 0;
+    for (const file of fs.readdirSync(tempDirectory)) {
+        const owner = resumable.find(({ tempName }) => file.startsWith(`${tempName}_`));
+        const isOutput = owner && file.startsWith(`${owner.tempName}_transcode`);
+        const keep = owner && (!isOutput || owner.state.stage === 'transcoded' && owner.state.resume?.outputs?.includes(file));
+        if (!keep) {
+            fs.removeSync(path.join(tempDirectory, file));
+            removed++;
+        }
+    }
+    if (removed > 0) {
+        log(chalk.gray(`🧹 Removed ${removed} orphaned temporary file(s)`));
+    }
+    if (resumable.length > 0) {
+        log(chalk.blue(`↻ ${resumable.length} unfinished track(s) can resume from their temporary files`));
+    }
+}
+
+// A downloaded track waiting for or going through the transcode stage
+interface DownloadedTrack {
+    track: QueuedTrack;
+    settings: OutputSettings;
+    metadata: TrackMetadata;
+    chapters: Chapter[]; // Tracks of a set to split, fewer than two to keep it whole
+    output: { relativePath: string; nameSuffix: string };
+    tempName: string;
+    inputPath: string;
+    coverPath?: string;
+    trackInfo: TrackInfo;
+}
+
+// First pipeline stage: skip check, metadata and download. Returns the track for the transcode stage, or
+// undefined when there's nothing more to do
+async function downloadTrack(track: QueuedTrack): Promise<DownloadedTrack | undefined> {
+    const { url } = track;
+    const key = getTrackKey(url);
+    const settings = resolveOutputSettings(track.source);
+    const extension = getOutputExtension(settings);
+    
     // Check if already downloaded successfully
-    if (appState.tracks[url]?.downloaded) {
+    if (appState.tracks[key]?.downloaded) {
         // Get the title and check if the file exists
-        const title = appState.tracks[url].title;
+        const title = appState.tracks[key].title;
         if (title) {
-            const sanitizedTitle = sanitizeFilename(title);
-            const expectedFilePath = path.join(downloadDirectory, `${sanitizedTitle}.mp4`);
+            // Older state entries don't record the file name; it was always the sanitized title
+            const fileName = appState.tracks[key].file || `${sanitizeFilename(title, legacyFileNameRules)}.mp4`;
+            const chapters = appState.tracks[key].chapters;
+            const existingFiles = getTrackFiles(fileName, appState.tracks[key]);
             
-            if (fs.existsSync(expectedFilePath)) {
+            if (path.extname(chapters?.[0].file ?? fileName) !== extension || (appState.tracks[key].profile ?? 'default') !== settings.profileName) {
+                // Profile or output type changed (e.g. video -> audio), produce the new file
+                log(chalk.blue(`🔄 Output changed to profile "${settings.profileName}" (${extension}) for: ${title}`));
+                appState.tracks[key].downloaded = false;
+            } else if (appState.tracks[key].split !== track.source.split) {
+                log(chalk.blue(`🔄 Split setting changed to ${track.source.split ?? 'none'} for: ${title}`));
+                appState.tracks[key].downloaded = false;
+            } else if (appState.tracks[key].trim !== getTrimSetting(track)) {
+                log(chalk.blue(`🔄 Trim settings changed for: ${title}`));
+                appState.tracks[key].downloaded = false;
+            } else if (appState.tracks[key].normalized !== getLoudnessTarget()) {
+                // Loudness normalization was switched on/off or retargeted
+                log(chalk.blue(`🔄 Loudness target changed to ${getLoudnessTarget() ?? 'none'} for: ${title}`));
+                appState.tracks[key].downloaded = false;
+            } else if (existingFiles.every(file => fs.existsSync(path.join(downloadDirectory, file)))) {
+                appState.tracks[key].file = fileName;
+                const info = await getNamingInfo(key, url, settings.fileNames);
+                const expected = info && chooseTrackRelativePath(key, track, renderTrackFileName(info, track, settings.fileNames), chapters ? '' : extension, appState.tracks[key].nameSuffix);
+                if (expected && fileName !== expected.relativePath) {
+                    appState.tracks[key].nameSuffix = expected.nameSuffix || undefined;
+                    relocateTrackFile(url, expected.relativePath);
+                }
+                syncTrackLinks(track);
                 log(chalk.gray(`Skipping already downloaded track: ${title}`));
                 appState.stats.completedTracks++;
                 updateStatus();
+                reportTrackEvent('skipped', url, { title, reason: 'already downloaded' });
                 return;
             } else {
                 // File doesn't exist, reset the downloaded flag
                 log(chalk.yellow(`⚠ Track marked as downloaded but file not found: ${title}`));
                 log(chalk.blue(`🔄 Resetting download state for: ${title}`));
-                appState.tracks[url].downloaded = false;
+                appState.tracks[key].downloaded = false;
                 // Don't increment error count as we're going to retry
             }
         } else {
             // No title in state, reset the downloaded flag
             log(chalk.yellow(`⚠ Track marked as downloaded but missing title information`));
-            appState.tracks[url].downloaded = false;
+            appState.tracks[key].downloaded = false;
         }
     }
 
-    // Skip if too many retries
-    if (appState.tracks[url]?.retries && appState.tracks[url].retries >= config.maxRetries) {
-        log(chalk.yellow(`⚠ Skipping track with too many retries: ${url}`));
+    // Skip if too many retries for its kind of failure, or if it's not time to try again yet
+    const { retries, errorCode, nextAttempt } = appState.tracks[key] ?? {};
+    if (retries && retries >= getRetryPolicy(errorCode ?? 'unknown').maxRetries) {
+        log(chalk.yellow(`⚠ Skipping track with too many retries (${errorCode ?? 'unknown'}): ${url}`));
+        appState.stats.errorTracks++;
+        updateStatus();
+        reportTrackEvent('skipped', url, { title: appState.tracks[key].title, reason: 'too many retries', errorCode });
+        return;
+    }
+    if (retries && nextAttempt && Date.parse(nextAttempt) > Date.now()) {
+        log(chalk.yellow(`⏳ Skipping track until ${new Date(nextAttempt).toLocaleString()} (${errorCode ?? 'unknown'}): ${url}`));
         appState.stats.errorTracks++;
         updateStatus();
+        reportTrackEvent('skipped', url, { title: appState.tracks[key].title, reason: 'retry later', errorCode, nextAttempt });
         return;
     }
 
@@ -887,63 +3952,474 @@ async function downloadTrack(url: string): Promise<void> {
         activeDownloads.set(url, trackInfo);
         updateActiveDownloads(activeDownloads);
 
-        // Fetch metadata using the extracted function
-        const { title, duration, sanitizedTitle } = await fetchMetadata(url);
+        // Temporary files in the temp directory, named by track so tracks with the same title don't clash
+        const tempName = sanitizeFilename(key);
+        const tempDownloadPath = path.join(tempDirectory, `${tempName}_download`);
+        const tempInfoPath = path.join(tempDirectory, `${tempName}_info.json`);
         
-        // Final output path in the download directory
-        const finalOutputPath = path.join(downloadDirectory, `${sanitizedTitle}.mp4`);
+        // Pick up where an interrupted sync left the track. A download of the other media type is no use
+        const { stage, resume } = appState.tracks[key] ?? {};
+        let resumeStage = resume && stage;
+        if (resume && resume.mediaType !== settings.mediaType) {
+            removeTempFiles(`${tempName}_download`);
+            resumeStage = 'metadata';
+        }
+
+        // Fetch metadata using the extracted function, unless an interrupted sync already did
+        let metadata = resumeStage ? loadSavedMetadata(tempInfoPath) : undefined;
+        if (metadata) {
+            log(chalk.blue(`↻ Resuming ${metadata.title} after stage: ${resumeStage}`));
+        } else {
+            metadata = await withRetries(trackInfo, () => fetchMetadata(url));
+            fs.writeJsonSync(tempInfoPath, metadata.info);
+            saveTrackStage(url, metadata.title, 'metadata', { mediaType: settings.mediaType });
+        }
+        const { title, duration } = metadata;
+        const fileName = renderTrackFileName(metadata.info, track, settings.fileNames);
         
-        // Temporary paths in the temp directory
-        const tempDownloadPath = path.join(tempDirectory, `${sanitizedTitle}_download`);
-        const tempTranscodePath = path.join(tempDirectory, `${sanitizedTitle}_transcode.mp4`);
+        // Sets to split become a folder of tracks
+        const { split } = track.source;
+        const chapters = split ? findChapters(split, metadata.info, duration) : [];
+        if (split && chapters.length < 2) {
+            log(chalk.yellow(`⚠ No chapters found (split: ${split}) for ${title}, keeping it as one file`));
+        }
+        
+        // Final output path in the download directory, claimed until the track is in the state file
+        const output = chooseTrackRelativePath(key, track, fileName, chapters.length >= 2 ? '' : extension, appState.tracks[key]?.nameSuffix);
+        if (output.nameSuffix && output.nameSuffix !== appState.tracks[key]?.nameSuffix) {
+            log(chalk.yellow(`⚠ Another track is already named "${fileName}", saving as: ${output.relativePath}`));
+        }
+        reservedOutputPaths.set(output.relativePath.toLowerCase(), key);
             
         // Update trackInfo with title
         trackInfo.title = title;
         activeDownloads.set(url, trackInfo);
         updateActiveDownloads(activeDownloads);
+        reportTrackEvent('started', url, { title, duration });
+
+        // Download video to temp directory, unless it's there from an interrupted sync
+        let inputPath = resumeStage === 'downloaded' || resumeStage === 'transcoded' ? findDownloadedFile(tempDownloadPath) : undefined;
+        if (!inputPath) {
+            await withRetries(trackInfo, () => downloadVideo(url, tempDownloadPath, trackInfo, settings));
+            
+            // Resolve the actual downloaded file
+            inputPath = resolveDownloadedFile(tempDownloadPath);
+            saveTrackStage(url, title, 'downloaded', { mediaType: settings.mediaType });
+        }
+        
+        // And its thumbnail for the cover art
+        const coverPath = config.tags.enabled && config.tags.coverArt ? resolveThumbnailFile(tempDownloadPath) : undefined;
+        
+        // Wait in the transcode queue
+        trackInfo.status = 'queued';
+        trackInfo.progress = undefined;
+        trackInfo.speed = undefined;
+        trackInfo.eta = undefined;
+        activeDownloads.set(url, trackInfo);
+        updateActiveDownloads(activeDownloads);
+        return { track, settings, metadata, chapters, output, tempName, inputPath, coverPath, trackInfo };
+    } catch (error) {
+        // Handle error using the extracted function
+        handleTrackError(url, error, trackInfo);
+        releaseOutputPaths(key);
+        return undefined;
+    }
+}
+
+// Transcoded files of a track in the temp directory
+interface RenderedOutputs {
+    tempOutputs: string[]; // One per track of a split set, or the parts of a whole track
+    chapterStates?: ChapterState[];
+    outputDuration: number;
+}
+
+// Everything a track's transcoded output depends on besides the download, to tell whether outputs an
+// interrupted sync left behind are still what this sync would produce
+function getOutputSetting(job: DownloadedTrack): string {
+    const { track, settings, output } = job;
+    return JSON.stringify({
+        profile: settings.profileName,
+        file: output.relativePath,
+        split: track.source.split,
+        trim: getTrimSetting(track),
+        normalized: getLoudnessTarget()
+    });
+}
+
+// Outputs an interrupted sync transcoded and verified but didn't finalize, if they can be used
+function findResumedOutputs(key: string, outputSetting: string): RenderedOutputs | undefined {
+    const { stage, resume } = appState.tracks[key] ?? {};
+    if (stage !== 'transcoded' || !resume?.outputs || resume.output !== outputSetting) {
+        return undefined;
+    }
+    const tempOutputs = resume.outputs.map(file => path.join(tempDirectory, file));
+    if (!tempOutputs.every(file => fs.existsSync(file))) {
+        return undefined;
+    }
+    log(chalk.blue(`↻ Reusing the transcoded output of an interrupted sync: ${resume.outputs.join(', ')}`));
+    return { tempOutputs, chapterStates: resume.chapters, outputDuration: resume.duration ?? 0 };
+}
+
+// Analyze, trim, normalize, transcode and verify a downloaded track into the temp directory
+async function renderTrackOutputs(job: DownloadedTrack): Promise<RenderedOutputs> {
+    const { track, settings, metadata, chapters, output, tempName, inputPath, coverPath, trackInfo } = job;
+    const { url } = track;
+    const key = getTrackKey(url);
+    const { title, duration } = metadata;
+    const extension = getOutputExtension(settings);
+    
+    const tags = buildTrackTags(metadata, track);
+    const tempTranscodePath = path.join(tempDirectory, `${tempName}_transcode${extension}`);
+    
+    // Find the streams that already fit the profile and don't need re-encoding
+    const probe = config.streamCopy ? await analyzeSource(inputPath) : undefined;
+    
+    // Transcode video to temp directory, trimming it and normalizing the loudness on the way if enabled
+    const trim = resolveTrim(track);
+    const segments: Segment[] = trim ? await getTrimSegments(key, url, trim, inputPath, duration, trackInfo) : [[0, Infinity]];
+    const audioFilter = await getLoudnessFilter(key, url, inputPath, trackInfo);
+    let tempOutputs: string[];
+    let chapterStates: ChapterState[] | undefined;
+    let outputDuration = duration;
+    if (chapters.length >= 2) {
+        // One transcode per track of the set, all with the gain measured over the whole set.
+        // Tracks trimmed away completely are left out
+        const keptChapters = chapters.filter(chapter => planTrimmedRange(segments, chapter.start, chapter.end ?? Infinity));
+        log(chalk.magenta(`✂ Splitting ${chalk.bold(title)} into ${keptChapters.length} tracks`));
+        chapterStates = nameChapterFiles(keptChapters, output.relativePath, extension, settings.fileNames);
+        tempOutputs = [];
+        for (const [index, chapter] of chapterStates.entries()) {
+            const tempChapterPath = path.join(tempDirectory, `${tempName}_transcode_${String(index + 1).padStart(3, '0')}${extension}`);
+            log(chalk.magenta(`🎵 ${index + 1}/${chapterStates.length}: ${chapter.title}`));
+            chapter.duration = planTrimmedRange(segments, chapter.start, chapter.end ?? (duration || Infinity))?.duration;
+            const options: TranscodeOptions = {
+                tags: buildChapterTags(tags, chapter, index, chapterStates.length, title),
+                coverPath,
+                audioFilter,
+                ...planTrimmedRange(segments, chapter.start, chapter.end ?? Infinity)
+            };
+            await withRetries(trackInfo, () => transcodeVideo(inputPath, tempChapterPath, trackInfo, settings, options));
+            tempOutputs.push(tempChapterPath);
+        }
+    } else {
+        const range = trim ? planTrimmedRange(segments, 0, Infinity) : undefined;
+        outputDuration = trim ? planTrimmedRange(segments, 0, duration || Infinity)?.duration ?? 0 : duration;
+        const options: TranscodeOptions = { tags, coverPath, audioFilter, ...range };
+        const mode = chooseTranscodeMode(probe, settings, options);
+        await withRetries(trackInfo, () => transcodeVideo(inputPath, tempTranscodePath, trackInfo, settings, { ...options, mode }));
+        tempOutputs = await splitOversizedOutput(tempTranscodePath, outputDuration, trackInfo);
+    }
+    
+    // Check the outputs play on the head unit before they replace anything in the library
+    if (config.verify.enabled) {
+        const outputs: OutputCheck[] = chapterStates
+            ? chapterStates.map((chapter, index) => ({ files: [tempOutputs[index]], duration: chapter.duration }))
+            : [{ files: tempOutputs, duration: outputDuration }];
+        await verifyTrackOutputs(outputs, settings, trackInfo);
+    }
+    return { tempOutputs, chapterStates, outputDuration };
+}
 
-        // Download video to temp directory
-        await downloadVideo(url, tempDownloadPath, trackInfo);
+// Second pipeline stage: analyze, transcode and finalize a downloaded track
+async function transcodeTrack(job: DownloadedTrack): Promise<void> {
+    const { track, settings, metadata, output, tempName, inputPath, trackInfo } = job;
+    const { url } = track;
+    const key = getTrackKey(url);
+    
+    try {
+        const finalOutputPath = path.join(downloadDirectory, output.relativePath);
+        
+        // Transcode, unless an interrupted sync got as far as that
+        const outputSetting = getOutputSetting(job);
+        let rendered = findResumedOutputs(key, outputSetting);
+        if (!rendered) {
+            rendered = await renderTrackOutputs(job);
+            saveTrackStage(url, metadata.title, 'transcoded', {
+                mediaType: settings.mediaType,
+                output: outputSetting,
+                outputs: rendered.tempOutputs.map(file => path.basename(file)),
+                chapters: rendered.chapterStates,
+                duration: rendered.outputDuration
+            });
+        }
+        const { tempOutputs, chapterStates, outputDuration } = rendered;
 
-        // Resolve the actual downloaded file
-        const inputPath = resolveDownloadedFile(tempDownloadPath);
+        // Move the final transcoded file to the download directory
+        await finalizeTrack(track, { ...metadata, duration: outputDuration }, finalOutputPath, tempOutputs, settings, output.nameSuffix, chapterStates);
+        syncTrackLinks(track);
+        
+        // Clean up any temporary files
+        try {
+            if (fs.existsSync(inputPath)) {
+                fs.removeSync(inputPath);
+                log(chalk.gray(`🧹 Cleaned up temporary download file: ${path.basename(inputPath)}`));
+            }
+            // Check for other temp files of the track: the saved metadata, thumbnail, other possible extensions
+            removeTempFiles(`${tempName}_`);
+        } catch (cleanupError) {
+            // Just log cleanup errors, don't fail the download
+            log(chalk.yellow(`⚠ Error during cleanup: ${cleanupError}`));
+        }
         
-        // Transcode video to temp directory
-        await transcodeVideo(inputPath, tempTranscodePath, trackInfo);
+        // Remove from active downloads
+        activeDownloads.delete(url);
+        updateActiveDownloads(activeDownloads);
+    } catch (error) {
+        // Handle error using the extracted function
+        handleTrackError(url, error, trackInfo);
+    } finally {
+        releaseOutputPaths(key);
+    }
+}
+
+// From here on the state file tells which track owns the output path
+function releaseOutputPaths(key: string) {
+    for (const [reservedPath, owner] of reservedOutputPaths) {
+        if (owner === key) {
+            reservedOutputPaths.delete(reservedPath);
+        }
+    }
+}
+
+// Semaphore bounding how many downloaded tracks are held between the download and transcode stages
+function createSemaphore(size: number) {
+    let available = size;
+    const waiting: (() => void)[] = [];
+    return {
+        acquire: () => new Promise<void>(resolve => {
+            if (available > 0) {
+                available--;
+                resolve();
+            } else {
+                waiting.push(resolve);
+            }
+        }),
+        release: () => {
+            const next = waiting.shift();
+            if (next) {
+                next();
+            } else {
+                available++;
+            }
+        }
+    };
+}
+
+// Run every track through the download pool and then the transcode pool. A finished download keeps its
+// download slot while the buffer is full, so yt-dlp can't run ahead of ffmpeg and fill the temp directory
+async function runPipeline(tracks: QueuedTrack[]): Promise<void> {
+    const downloads = pLimit(config.downloadConcurrency);
+    const transcodes = pLimit(config.concurrency);
+    const buffer = createSemaphore(config.concurrency + config.transcodeBuffer);
+    downloadPool = downloads;
+    
+    try {
+        await Promise.all(tracks.map(async track => {
+            const job = await downloads(async () => {
+                const downloaded = await downloadTrack(track);
+                if (downloaded) {
+                    await buffer.acquire();
+                }
+                return downloaded;
+            });
+            if (job) {
+                await transcodes(() => transcodeTrack(job)).finally(buffer.release);
+            }
+        }));
+    } finally {
+        downloadPool = undefined;
+    }
+}
+
+// An entry of a generated playlist file
+interface PlaylistFileEntry {
+    file: string; // Relative to the download directory
+    title: string;
+    duration?: number;
+}
+
+// Find the files a playlist occurrence of a track ended up in: its own copy/link, or the primary file (one entry per part)
+function resolvePlaylistEntries(track: QueuedTrack): PlaylistFileEntry[] {
+    const state = appState.tracks[getTrackKey(track.url)];
+    if (!state?.downloaded || !state.file || !state.title) {
+        return [];
+    }
+    const title = state.title;
+    const fileName = renderTrackFileName(getStoredNamingInfo(getTrackKey(track.url), state), track, resolveOutputSettings(track.source).fileNames);
+    const ownPath = getTrackRelativePath(track, fileName, getStoredExtension(state), state.nameSuffix);
+    const files = [ownPath, state.file]
+        .map(candidate => getTrackFiles(candidate, state))
+        .find(candidate => candidate.every(file => fs.existsSync(path.join(downloadDirectory, file))));
+    if (!files) {
+        return [];
+    }
+    if (state.chapters) {
+        const chapters = state.chapters;
+        return files.map((file, index) => ({
+            file,
+            title: chapters[index].artist ? `${chapters[index].artist} - ${chapters[index].title}` : chapters[index].title,
+            duration: chapters[index].duration ?? ((chapters[index].end ?? state.duration ?? 0) - chapters[index].start || undefined)
+        }));
+    }
+    return files.length === 1
+        ? [{ file: files[0], title, duration: state.duration }]
+        : files.map((file, index) => ({ file, title: `${title} (Part ${index + 1})` }));
+}
+
+// Render a playlist in the given format with the configured path separator
+function renderPlaylistFile(format: 'm3u' | 'm3u8' | 'pls', name: string, entries: PlaylistFileEntry[]): string[] {
+    const toPlaylistPath = (file: string) => file.split(path.sep).join(config.playlistFiles.pathSeparator);
+    const seconds = (entry: PlaylistFileEntry) => entry.duration ? Math.round(entry.duration) : -1;
+    
+    if (format === 'pls') {
+        return [
+            '[playlist]',
+            ...entries.flatMap((entry, index) => [
+                `File${index + 1}=${toPlaylistPath(entry.file)}`,
+                `Title${index + 1}=${entry.title}`,
+                `Length${index + 1}=${seconds(entry)}`
+            ]),
+            `NumberOfEntries=${entries.length}`,
+            'Version=2'
+        ];
+    }
+    return [
+        '#EXTM3U',
+        `#PLAYLIST:${name}`,
+        ...entries.flatMap(entry => [
+            `#EXTINF:${seconds(entry)},${entry.title}`,
+            toPlaylistPath(entry.file)
+        ])
+    ];
+}
+
+// Encode playlist text; Latin-1 replaces characters it can't represent so old players don't choke
+function encodePlaylistFile(lines: string[], format: 'm3u' | 'm3u8' | 'pls'): Buffer {
+    const lineEnding = config.playlistFiles.lineEndings === 'crlf' ? '\r\n' : '\n';
+    const text = lines.join(lineEnding) + lineEnding;
+    if (format === 'm3u8' || config.playlistFiles.encoding === 'utf8') {
+        return Buffer.from(text, 'utf8');
+    }
+    return Buffer.from(text.replace(/[^\x00-\xff]/g, '?'), 'latin1');
+}
+
+// Write a playlist file per source playlist plus one with every track, removing ones no longer produced
+function writePlaylistFiles(allTracks: QueuedTrack[], tracksToProcess: QueuedTrack[], removeStale: boolean) {
+    if (!config.playlistFiles.enabled) {
+        return;
+    }
+    
+    // Group playlist occurrences by playlist, in playlist order
+    const playlists = new Map<string, { name: string; tracks: QueuedTrack[] }>();
+    for (const track of allTracks) {
+        if (track.playlistTitle === undefined) {
+            continue;
+        }
+        const playlist = playlists.get(track.source.url) ?? { name: sanitizeFilename(track.playlistTitle) || 'Playlist', tracks: [] };
+        playlist.tracks.push(track);
+        playlists.set(track.source.url, playlist);
+    }
+    // Playlists whose names are the same (FAT ignores case) get numbered, and none takes the name of the
+    // all-tracks playlist
+    const allTracksName = sanitizeFilename(config.playlistFiles.allTracksName);
+    const takenNames = new Set(allTracksName ? [allTracksName.toLowerCase()] : []);
+    const lists = [...playlists.values()].map(playlist => {
+        let fileName = playlist.name;
+        for (let number = 2; takenNames.has(fileName.toLowerCase()); number++) {
+            fileName = `${playlist.name} (${number})`;
+        }
+        takenNames.add(fileName.toLowerCase());
+        return {
+            name: playlist.name,
+            fileName,
+            tracks: [...playlist.tracks].sort((a, b) => (a.playlistIndex ?? 0) - (b.playlistIndex ?? 0))
+        };
+    });
+    if (allTracksName) {
+        lists.push({ name: allTracksName, fileName: allTracksName, tracks: tracksToProcess });
+    }
+    
+    const written: string[] = [];
+    for (const list of lists) {
+        const entries = list.tracks.flatMap(resolvePlaylistEntries);
+        for (const format of config.playlistFiles.formats) {
+            const fileName = `${list.fileName}.${format}`;
+            try {
+                fs.writeFileSync(path.join(downloadDirectory, fileName), encodePlaylistFile(renderPlaylistFile(format, list.name, entries), format));
+                written.push(fileName);
+            } catch (error) {
+                log(chalk.yellow(`⚠ Could not write playlist ${fileName}: ${error}`));
+            }
+        }
+    }
+    
+    // Playlists that failed to load this time keep their files
+    const stale = (appState.playlistFiles ?? []).filter(file => !written.includes(file));
+    for (const file of removeStale ? stale : []) {
+        fs.removeSync(path.join(downloadDirectory, file));
+        log(chalk.gray(`🧹 Removed old playlist file: ${file}`));
+    }
+    appState.playlistFiles = removeStale ? written : [...written, ...stale];
+    saveState();
+    log(chalk.green(`✓ Wrote ${written.length} playlist file(s)`));
+}
 
-        // Move the final transcoded file to the download directory
-        await finalizeTrack(url, title, finalOutputPath, tempTranscodePath);
-        
-        // Clean up any temporary files
+// Report, archive or delete tracks in the state file that no source lists anymore
+function pruneOrphanedTracks(tracksToProcess: QueuedTrack[], gatherComplete: boolean) {
+    const wanted = new Set(tracksToProcess.map(track => getTrackKey(track.url)));
+    const orphaned = Object.keys(appState.tracks).filter(key => !wanted.has(key));
+    if (orphaned.length === 0) {
+        return;
+    }
+    
+    const policy = config.prune.policy;
+    log(chalk.yellow(`🗑 ${orphaned.length} track(s) are no longer in any playlist or video list:`));
+    for (const key of orphaned) {
+        log(chalk.gray(`    ${appState.tracks[key].title || appState.tracks[key].url || key}${appState.tracks[key].file ? ` (${appState.tracks[key].file})` : ''}`));
+    }
+    if (policy === 'report') {
+        log(chalk.gray('Set prune.policy to "archive" or "delete" to remove them'));
+        return;
+    }
+    // A playlist that failed to load or came back empty would look like all of its tracks were removed
+    if (!gatherComplete) {
+        log(chalk.yellow('⚠ Not pruning: some playlists failed to load or returned no tracks'));
+        return;
+    }
+    if (orphaned.length > config.prune.maxTracks && cliOptions.flags['confirm-prune'] !== true) {
+        log(chalk.yellow(`⚠ Not pruning more than ${config.prune.maxTracks} tracks at once; run sync with --confirm-prune to ${policy} them`));
+        return;
+    }
+    
+    for (const key of orphaned) {
+        const state = appState.tracks[key];
+        // Older state entries don't record the file name; it was always the sanitized title
+        const file = state.file || (state.downloaded && state.title ? `${sanitizeFilename(state.title, legacyFileNameRules)}.mp4` : undefined);
         try {
-            if (fs.existsSync(inputPath)) {
-                fs.removeSync(inputPath);
-                log(chalk.gray(`🧹 Cleaned up temporary download file: ${path.basename(inputPath)}`));
-            }
-            // Check for other possible temp files with different extensions
-            const tempFilePattern = path.join(tempDirectory, `${sanitizedTitle}_download.*`);
-            const tempFiles = fs.readdirSync(tempDirectory)
-                .filter(file => file.startsWith(`${sanitizedTitle}_download`));
-            
-            for (const file of tempFiles) {
-                fs.removeSync(path.join(tempDirectory, file));
-                log(chalk.gray(`🧹 Cleaned up temporary file: ${file}`));
+            const files = file ? getTrackFiles(file, state) : [];
+            for (const relativePath of [...files, ...(state.links ?? [])]) {
+                const filePath = path.join(downloadDirectory, relativePath);
+                if (!fs.existsSync(filePath)) {
+                    continue;
+                }
+                if (policy === 'archive' && files.includes(relativePath)) {
+                    fs.moveSync(filePath, path.join(archiveDirectory, relativePath), { overwrite: true });
+                } else {
+                    fs.removeSync(filePath);
+                }
+                removeEmptyDirectories(path.dirname(filePath));
             }
-        } catch (cleanupError) {
-            // Just log cleanup errors, don't fail the download
-            log(chalk.yellow(`⚠ Error during cleanup: ${cleanupError}`));
+            delete appState.tracks[key];
+            log(chalk.gray(`🗑 ${policy === 'archive' ? `Archived to ${archiveDirectory}` : 'Deleted'}: ${state.title || state.url || key}`));
+        } catch (error) {
+            log(chalk.yellow(`⚠ Could not ${policy} ${state.title || state.url || key}: ${error}`));
         }
-        
-        // Remove from active downloads
-        activeDownloads.delete(url);
-        updateActiveDownloads(activeDownloads);
-    } catch (error) {
-        // Handle error using the extracted function
-        handleTrackError(url, error, trackInfo);
     }
+    saveState();
 }
 
-async function getTracksFromPlaylist(url: string): Promise<string[]> {
+async function getTracksFromPlaylist(source: SourceConfig): Promise<QueuedTrack[]> {
+    const { url } = source;
     try {
         log(chalk.blue(`📋 Fetching playlist: ${url}`));
         const output = await execAsync('yt-dlp', [
@@ -962,7 +4438,14 @@ async function getTracksFromPlaylist(url: string): Promise<string[]> {
                 return [];
             }
             
-            const tracks = playlistData.entries.map((entry: any) => `https://youtube.com/watch?v=${entry.id}`);
+            const tracks: QueuedTrack[] = playlistData.entries.map((entry: any, index: number) => ({
+                url: `https://youtube.com/watch?v=${entry.id}`,
+                source,
+                // Untitled playlists still get their own folder
+                playlistTitle: playlistData.title || `Playlist ${playlistData.id || new URL(url).searchParams.get('list')}`,
+                playlistIndex: index + 1,
+                playlistSize: playlistData.entries.length
+            }));
             log(chalk.green(`✓ Found ${tracks.length} tracks in playlist`));
             return tracks;
         } catch (parseError) {
@@ -1033,6 +4516,23 @@ async function checkRequirements(): Promise<boolean> {
             return false;
         }
         
+        // ffprobe comes with ffmpeg. Checking the outputs can't work without it; stream copy falls back to
+        // transcoding every track fully
+        if (config.verify.enabled || config.streamCopy) {
+            try {
+                await execAsync('ffprobe', ['-version']);
+                log(chalk.green('✓ ffprobe is installed'));
+            } catch (error) {
+                if (config.verify.enabled) {
+                    const errorMessage = error instanceof Error ? error.message : String(error);
+                    log(chalk.red(`❌ ffprobe check failed: ${errorMessage}`));
+                    log(chalk.yellow('⚠ ffprobe is needed to check the outputs. Install it with ffmpeg, or set "verify": { "enabled": false } in the config'));
+                    return false;
+                }
+                log(chalk.yellow('⚠ ffprobe not found, sources that already fit the profile will be re-encoded anyway'));
+            }
+        }
+        
         return true;
     } catch (error) {
         const errorMessage = error instanceof Error ? error.message : String(error);
@@ -1047,6 +4547,7 @@ async function checkRequirements(): Promise<boolean> {
 
 // Display help information
 function displayHelp() {
+    const profileName = getRunProfileName();
     const helpText = `
 ${chalk.cyan.bold('YouTube Music Downloader for Car Multimedia')}
 
@@ -1061,10 +4562,9 @@ ${chalk.yellow('Features:')}
   - Smart caching to resume interrupted downloads
   - Detailed error logging and recovery
   
-${chalk.yellow('Video Format:')}
-  - H.264 baseline profile (level 3.0)
-  - 720p resolution with 2Mbps bitrate limit
-  - AAC audio at 192kbps for high quality
+${chalk.yellow('Output Profile:')}
+  - ${profileName}: ${describeProfile(resolveProfile(profileName))}
+  - Sources can select their own profile in the config file
   
 ${chalk.yellow('Files:')}
   - Downloaded videos: ${downloadDirectory}
@@ -1074,36 +4574,74 @@ ${chalk.yellow('Files:')}
     log(helpText);
 }
 
-async function main() {
+// The "sync" command: download and transcode every configured track
+async function runSync() {
     try {
-        console.log('Application starting...');  // Direct console output for debugging
+        outputMode = selectOutputMode();
+        if (outputMode === 'json') {
+            // Keep escape codes out of the event stream
+            chalk.level = 0;
+        }
+        
+        if (outputMode === 'tui') {
+            console.log('Application starting...');  // Direct console output for debugging
+            initUi();
+        }
         
         // Display welcome message
         log(chalk.cyan.bold('🎵 YouTube Music Downloader for Car Multimedia 🚗'));
-        log(chalk.gray('Press q or Ctrl+C to exit at any time'));
         
-        // Check terminal size and ensure screen is rendering
-        checkTerminalSize();
+        if (outputMode === 'tui') {
+            log(chalk.gray('Press q or Ctrl+C to exit at any time'));
+            
+            // Check terminal size and ensure screen is rendering
+            checkTerminalSize();
+            try {
+                safeRender();
+                console.log('Screen initialized and rendered');
+            } catch (error) {
+                console.error('Error rendering screen:', error);
+            }
+        }
+        
+        // Load config file
         try {
-            safeRender();
-            console.log('Screen initialized and rendered');
+            config = loadConfig();
+            resolveProfile(getRunProfileName());
+            const configPath = getConfigPath();
+            log(configPath
+                ? chalk.green(`✓ Loaded config from ${configPath}`)
+                : chalk.gray('No config file found, using built-in defaults'));
         } catch (error) {
-            console.error('Error rendering screen:', error);
+            const errorMessage = error instanceof Error ? error.message : String(error);
+            for (const line of errorMessage.split('\n')) {
+                log(chalk.red(line));
+            }
+            log(chalk.red('❌ Exiting due to invalid configuration'));
+            process.exitCode = 1;
+            screen?.key(['q', 'C-c'], () => cleanupAndExit(1));
+            return;
         }
         
         // Check requirements
         if (!await checkRequirements()) {
             log(chalk.red('❌ Exiting due to missing requirements'));
-            screen.key(['q', 'C-c'], () => cleanupAndExit(1));
+            process.exitCode = 1;
+            screen?.key(['q', 'C-c'], () => cleanupAndExit(1));
             return;
         }
         
+        // Load state from previous runs
+        loadState();
+        log(chalk.green(`✓ Loaded state with ${Object.keys(appState.tracks).length} track entries`));
+        
         // Create download and temp directories if they don't exist
         try {
             fs.ensureDirSync(downloadDirectory);
             fs.ensureDirSync(tempDirectory);
             log(chalk.green(`✓ Download directory ready: ${downloadDirectory}`));
             log(chalk.green(`✓ Temp directory ready: ${tempDirectory}`));
+            collectTempGarbage();
         } catch (error) {
             const errorMessage = error instanceof Error ? error.message : String(error);
             log(chalk.red(`❌ Failed to create directories: ${errorMessage}`));
@@ -1111,8 +4649,10 @@ async function main() {
             process.exit(1);
         }
 
-        // Display help
-        displayHelp();
+        // Display help (UI controls only make sense in the terminal UI)
+        if (outputMode === 'tui') {
+            displayHelp();
+        }
         
         // Reset stats counters for this run
         appState.stats = {
@@ -1123,23 +4663,47 @@ async function main() {
         
         // Get all tracks
         log(chalk.blue('📋 Gathering tracks from playlists and videos...'));
-        const allTracks: string[] = [];
+        const allTracks: QueuedTrack[] = [];
+        let gatherComplete = true;
         
         // Process playlists
-        for (const playlistUrl of config.playlistUrls) {
+        for (const playlist of config.playlistUrls.map(toSourceConfig)) {
             try {
-                const trackUrls = await getTracksFromPlaylist(playlistUrl);
-                allTracks.push(...trackUrls);
+                const playlistTracks = await getTracksFromPlaylist(playlist);
+                if (playlistTracks.length === 0) {
+                    log(chalk.yellow(`⚠ Playlist returned no tracks: ${playlist.url}`));
+                    gatherComplete = false;
+                }
+                allTracks.push(...playlistTracks);
             } catch (error) {
                 const errorMessage = error instanceof Error ? error.message : String(error);
-                log(chalk.red(`❌ Failed to process playlist ${playlistUrl}: ${errorMessage}`));
+                log(chalk.red(`❌ Failed to process playlist ${playlist.url}: ${errorMessage}`));
                 // Continue with other playlists instead of failing completely
+                gatherComplete = false;
             }
         }
         
         // Add individual videos
-        allTracks.push(...config.videoUrls);
-        appState.stats.totalTracks = allTracks.length;
+        allTracks.push(...config.videoUrls.map(toSourceConfig).map((source, index) => ({
+            url: source.url,
+            source,
+            videoIndex: index + 1,
+            videoCount: config.videoUrls.length
+        })));
+        
+        // A track listed in several places (under any URL form) is processed once; the other playlists get links to its file
+        const uniqueTracks = new Map<string, QueuedTrack>();
+        for (const track of allTracks) {
+            const key = getTrackKey(track.url);
+            const first = uniqueTracks.get(key);
+            if (first) {
+                first.alsoIn = [...(first.alsoIn ?? []), track];
+            } else {
+                uniqueTracks.set(key, track);
+            }
+        }
+        const tracksToProcess = [...uniqueTracks.values()];
+        appState.stats.totalTracks = tracksToProcess.length;
         
         if (appState.stats.totalTracks === 0) {
             log(chalk.red('❌ No tracks found to download. Check your playlist and video URLs.'));
@@ -1147,22 +4711,18 @@ async function main() {
         }
         
         log(chalk.green(`✓ Found ${appState.stats.totalTracks} total tracks to process`));
+        
+        // Tracks removed from their playlists
+        pruneOrphanedTracks(tracksToProcess, gatherComplete);
 
         // Initialize progress
         updateStatus();
 
-        // Set up parallel processing
-        log(chalk.blue(`🚀 Starting download with ${config.concurrency} parallel processes`));
+        // Set up the download and transcode pools
+        log(chalk.blue(`🚀 Starting ${config.downloadConcurrency} parallel downloads and ${config.concurrency} parallel transcodes`));
         
-        // Use p-limit for parallel processing
         try {
-            const pLimit = require('p-limit');
-            const limit = pLimit(config.concurrency);
-            
-            const promises = allTracks.map(url => limit(() => downloadTrack(url)));
-
-            // Wait for all downloads to complete
-            await Promise.all(promises);
+            await runPipeline(tracksToProcess);
         } catch (error) {
             const errorMessage = error instanceof Error ? error.message : String(error);
             log(chalk.red(`❌ Error during parallel processing: ${errorMessage}`));
@@ -1171,6 +4731,10 @@ async function main() {
             }
             throw error; // Re-throw to be caught by the outer catch
         }
+        
+        // Playlist files for the head unit
+        writePlaylistFiles(allTracks, tracksToProcess, gatherComplete);
+        flushState();
 
         // Final status
         log(chalk.green.bold('\n✅ Download complete!'));
@@ -1184,6 +4748,15 @@ async function main() {
             log(chalk.yellow(`⚠ Some tracks had errors. Check the state file for details: ${stateFile}`));
         }
 
+        if (outputMode !== 'tui') {
+            // Headless runs exit on their own; signal errors to cron/systemd through the exit code
+            reportRunFinished();
+            if (appState.stats.errorTracks > 0) {
+                process.exitCode = 1;
+            }
+            return;
+        }
+
         // Keep the screen open until user presses 'q'
         statusBox.setContent(chalk.green.bold('✅ Download complete! Press q to exit'));
         safeRender();
@@ -1196,7 +4769,7 @@ async function main() {
         
         // Save current state
         try {
-            fs.writeJsonSync(stateFile, appState, { spaces: 2 });
+            flushState();
             log(chalk.yellow('✓ Saved current progress to state file'));
         } catch (saveError) {
             log(chalk.red(`❌ Failed to save progress: ${saveError}`));
@@ -1206,29 +4779,47 @@ async function main() {
     }
 }
 
-// Handle uncaught exceptions
-process.on('uncaughtException', (error) => {
-    log(chalk.red(`❌ FATAL UNCAUGHT EXCEPTION: ${error.message}`));
-    log(chalk.red(`Stack trace: ${error.stack || 'No stack trace available'}`));
-    log(chalk.yellow('Process will exit after saving current state'));
+// Handlers that save the state when the application is stopped or crashes
+function installProcessHandlers() {
+    // Handle uncaught exceptions
+    process.on('uncaughtException', (error) => {
+        log(chalk.red(`❌ FATAL UNCAUGHT EXCEPTION: ${error.message}`));
+        log(chalk.red(`Stack trace: ${error.stack || 'No stack trace available'}`));
+        log(chalk.yellow('Process will exit after saving current state'));
+        
+        cleanupAndExit(1);
+    });
     
-    cleanupAndExit(1);
-});
-
-// Also add a handler for unhandled promise rejections
-process.on('unhandledRejection', (reason, promise) => {
-    log(chalk.red(`❌ UNHANDLED PROMISE REJECTION: ${reason}`));
-    if (reason instanceof Error) {
-        log(chalk.red(`Stack trace: ${reason.stack || 'No stack trace available'}`));
-    }
-    log(chalk.yellow('This is a bug in the application that should be fixed'));
+    // Also add a handler for unhandled promise rejections
+    process.on('unhandledRejection', (reason, promise) => {
+        log(chalk.red(`❌ UNHANDLED PROMISE REJECTION: ${reason}`));
+        if (reason instanceof Error) {
+            log(chalk.red(`Stack trace: ${reason.stack || 'No stack trace available'}`));
+        }
+        log(chalk.yellow('This is a bug in the application that should be fixed'));
+        
+        // We don't exit here, but log it for debugging
+    });
+    
+    // Handle process signals
+    process.on('SIGINT', () => {
+        log(chalk.yellow('Received SIGINT signal (Ctrl+C)'));
+        cleanupAndExit(0);
+    });
     
-    // We don't exit here, but log it for debugging
-});
+    process.on('SIGTERM', () => {
+        log(chalk.yellow('Received SIGTERM signal'));
+        cleanupAndExit(0);
+    });
+}
+
+// Set once the application is exiting, when failures of killed processes are expected
+let exiting = false;
 
 // Function to clean up and exit
 function cleanupAndExit(exitCode = 0) {
     log(chalk.yellow('Exiting application...'));
+    exiting = true;
     
     // Kill all active processes
     if (activeProcesses.size > 0) {
@@ -1244,7 +4835,7 @@ function cleanupAndExit(exitCode = 0) {
     
     // Save state before exit
     try {
-        fs.writeJsonSync(stateFile, appState, { spaces: 2 });
+        flushState();
         log(chalk.green('✓ State saved successfully'));
     } catch (error) {
         log(chalk.red(`❌ Error saving state: ${error}`));
@@ -1252,33 +4843,558 @@ function cleanupAndExit(exitCode = 0) {
     
     // Final render attempt
     try {
-        screen.render();
+        screen?.render();
     } catch (error) {
         console.error('Error during final render:', error);
     }
     
-    // Force exit after a brief delay to allow final logs
-    setTimeout(() => process.exit(exitCode), 300);
+    // Exit once the processes are gone, so the partial downloads they leave are complete up to where they
+    // stopped, or after a few seconds at the most
+    const exitDeadline = Date.now() + 5000;
+    const exitWhenDone = () => {
+        if (activeProcesses.size === 0 || Date.now() > exitDeadline) {
+            process.exit(exitCode);
+        } else {
+            setTimeout(exitWhenDone, 100);
+        }
+    };
+    setTimeout(exitWhenDone, 300);
+}
+
+// Print command-line usage
+function printUsage() {
+    console.log(`
+${chalk.cyan.bold('YouTube Music Downloader for Car Multimedia')}
+
+${chalk.yellow('Usage:')} yarn start [command] [options]
+
+${chalk.yellow('Commands:')}
+  ${chalk.green('sync')}                      Download and transcode all tracks (default)
+  ${chalk.green('add <url>')}                 Add a playlist or video URL to the config file
+  ${chalk.green('remove <url>')}              Remove a playlist or video URL from the config file
+  ${chalk.green('list')}                      List tracks recorded in the state file
+  ${chalk.green('status')}                    Show the summary of the last sync
+  ${chalk.green('retry <url|--all-failed>')}  Reset the retry counter and error of failed tracks
+  ${chalk.green('profiles')}                  List the available device profiles
+  ${chalk.green('push [dir]')}                Mirror the library onto a USB stick or other directory
+  ${chalk.green('verify')}                    Check every file in the library against its profile
+  ${chalk.green('help')}                      Show this help
+
+${chalk.yellow('Options:')}
+  ${chalk.green('--config <path>')}           Config file to use (or set SYNC_CONFIG)
+  ${chalk.green('--profile <name>')}          Device profile for this run (sources with their own profile keep it)
+  ${chalk.green('--headless')}                Print plain log lines instead of the terminal UI
+  ${chalk.green('--json')}                    Print a JSON-lines event stream instead of the terminal UI
+  ${chalk.green('--confirm-prune')}           With sync: prune more than prune.maxTracks removed tracks
+  ${chalk.green('--dry-run')}                 With push: only report what would change
+  ${chalk.green('--force')}                   With push: push even when files break the filesystem limits
+  ${chalk.green('--reset')}                   With verify: download and transcode failing tracks again on the next sync
+`);
+}
+
+// Tell playlist URLs apart from single video URLs
+function isPlaylistUrl(url: string): boolean {
+    const parsed = new URL(url);
+    return parsed.pathname === '/playlist' || (parsed.searchParams.has('list') && !parsed.searchParams.has('v'));
+}
+
+// Read the source lists from the config file (or the defaults when it doesn't exist yet)
+function readConfigSources(configPath: string): { playlistUrls: SourceEntry[]; videoUrls: SourceEntry[] } {
+    const raw = fs.existsSync(configPath) ? parseConfigFile(configPath) ?? {} : {};
+    return {
+        playlistUrls: [...(raw.playlistUrls ?? defaultConfig.playlistUrls)],
+        videoUrls: [...(raw.videoUrls ?? defaultConfig.videoUrls)]
+    };
+}
+
+// Write one source list back, leaving every other key of the config file untouched
+function writeConfigSource(configPath: string, key: 'playlistUrls' | 'videoUrls', entries: SourceEntry[]) {
+    const ext = path.extname(configPath).toLowerCase();
+    if (ext === '.yaml' || ext === '.yml') {
+        const yaml = require('yaml');
+        const doc = yaml.parseDocument(fs.existsSync(configPath) ? fs.readFileSync(configPath, 'utf8') : '');
+        doc.set(key, entries);
+        fs.writeFileSync(configPath, doc.toString());
+        return;
+    }
+    const raw = fs.existsSync(configPath) ? fs.readJsonSync(configPath) : {};
+    fs.writeJsonSync(configPath, { ...raw, [key]: entries }, { spaces: 4 });
+}
+
+// The "add" command
+function addSource(url: string | undefined) {
+    if (!url || !isValidUrl(url)) {
+        throw new Error(`add requires a valid http(s) URL, got ${JSON.stringify(url)}`);
+    }
+    const configPath = getConfigPath() ?? defaultConfigFiles[0];
+    const sources = readConfigSources(configPath);
+    const key = isPlaylistUrl(url) ? 'playlistUrls' : 'videoUrls';
+    
+    if (sources[key].some(entry => toSourceConfig(entry).url === url)) {
+        console.log(chalk.yellow(`⚠ Already in ${key}: ${url}`));
+        return;
+    }
+    sources[key].push(url);
+    writeConfigSource(configPath, key, sources[key]);
+    console.log(chalk.green(`✓ Added to ${key} in ${configPath}: ${url}`));
+}
+
+// The "remove" command
+function removeSource(url: string | undefined) {
+    if (!url) {
+        throw new Error('remove requires a URL');
+    }
+    const configPath = getConfigPath() ?? defaultConfigFiles[0];
+    const sources = readConfigSources(configPath);
+    const hasUrl = (entries: SourceEntry[]) => entries.some(entry => toSourceConfig(entry).url === url);
+    const key = hasUrl(sources.playlistUrls) ? 'playlistUrls' : hasUrl(sources.videoUrls) ? 'videoUrls' : undefined;
+    
+    if (!key) {
+        throw new Error(`URL not found in ${configPath}: ${url}`);
+    }
+    writeConfigSource(configPath, key, sources[key].filter(entry => toSourceConfig(entry).url !== url));
+    console.log(chalk.green(`✓ Removed from ${key} in ${configPath}: ${url}`));
+}
+
+// Short colored label for a track's state
+function describeTrackState(track: TrackState): string {
+    if (track.downloaded) {
+        return chalk.green('✓ downloaded');
+    }
+    if (track.error) {
+        const retries = track.retries || 0;
+        const errorCode = track.errorCode ?? 'unknown';
+        const { maxRetries } = getRetryPolicy(errorCode);
+        if (retries >= maxRetries) {
+            return chalk.red(`✗ failed: ${errorCode} (${retries}/${maxRetries}, skipped)`);
+        }
+        const waiting = track.nextAttempt && Date.parse(track.nextAttempt) > Date.now() ? `, retry after ${new Date(track.nextAttempt).toLocaleString()}` : '';
+        return chalk.yellow(`✗ failed: ${errorCode} (${retries}/${maxRetries}${waiting})`);
+    }
+    if (track.resume) {
+        return chalk.gray(`… pending (interrupted after stage: ${track.stage})`);
+    }
+    return chalk.gray('… pending');
+}
+
+// The "list" command
+function listTracks() {
+    const entries = Object.entries(appState.tracks);
+    if (entries.length === 0) {
+        console.log(chalk.gray(`No tracks recorded in ${stateFile}`));
+        return;
+    }
+    for (const [key, track] of entries) {
+        console.log(`${describeTrackState(track)}  ${chalk.white(track.title || track.url || key)}`);
+        console.log(chalk.gray(`    ${track.url || key}${track.lastAttempt ? `  (last attempt: ${track.lastAttempt})` : ''}`));
+        if (track.chapters) {
+            console.log(chalk.gray(`    Split into ${track.chapters.length} tracks in ${track.file}`));
+        }
+        if (track.error && !track.downloaded) {
+            console.log(chalk.red(`    ${track.error}`));
+        }
+    }
+}
+
+// The "status" command
+function printStatus() {
+    const tracks = Object.values(appState.tracks);
+    const { totalTracks, completedTracks, errorTracks } = appState.stats;
+    
+    console.log(chalk.cyan('📊 Last sync:'));
+    console.log(chalk.white(`  Total tracks: ${totalTracks}`));
+    console.log(chalk.green(`  Completed: ${completedTracks}`));
+    console.log(chalk.red(`  Errors: ${errorTracks}`));
+    console.log(chalk.yellow(`  Remaining: ${totalTracks - completedTracks - errorTracks}`));
+    console.log(chalk.cyan(`📁 State file (${stateFile}):`));
+    console.log(chalk.white(`  Tracks: ${tracks.length}`));
+    console.log(chalk.green(`  Downloaded: ${tracks.filter(track => track.downloaded).length}`));
+    console.log(chalk.red(`  Failed: ${tracks.filter(track => !track.downloaded && track.error).length}`));
+    console.log(chalk.red(`  Skipped (max retries reached): ${tracks.filter(track => !track.downloaded && (track.retries || 0) >= getRetryPolicy(track.errorCode ?? 'unknown').maxRetries).length}`));
+    
+    // Failures by class
+    for (const code of errorCodes) {
+        const count = tracks.filter(track => !track.downloaded && track.error && (track.errorCode ?? 'unknown') === code).length;
+        if (count > 0) {
+            console.log(chalk.gray(`    ${code}: ${count}`));
+        }
+    }
+}
+
+// The "profiles" command
+function listProfiles() {
+    const selected = getRunProfileName();
+    for (const name of getProfileNames()) {
+        const profile = resolveProfile(name);
+        const marker = name === selected ? chalk.green('*') : ' ';
+        console.log(`${marker} ${chalk.bold(name)}${profile.description ? chalk.gray(` - ${profile.description}`) : ''}`);
+        console.log(chalk.gray(`    ${describeProfile(profile)}`));
+    }
+}
+
+// The "retry" command
+function retryTracks(url: string | undefined, allFailed: boolean) {
+    let keys: string[];
+    if (allFailed) {
+        keys = Object.keys(appState.tracks).filter(key => !appState.tracks[key].downloaded && (appState.tracks[key].error || appState.tracks[key].retries));
+    } else if (url) {
+        if (!appState.tracks[getTrackKey(url)]) {
+            throw new Error(`Track not found in state file: ${url}`);
+        }
+        keys = [getTrackKey(url)];
+    } else {
+        throw new Error('retry requires a URL or --all-failed');
+    }
+    
+    for (const key of keys) {
+        delete appState.tracks[key].retries;
+        delete appState.tracks[key].error;
+        delete appState.tracks[key].errorCode;
+        delete appState.tracks[key].nextAttempt;
+        console.log(chalk.green(`✓ Reset ${appState.tracks[key].title || appState.tracks[key].url || key}`));
+    }
+    flushState();
+    console.log(chalk.cyan(`${keys.length} track(s) will be retried on the next sync`));
+}
+
+// File on the push target listing what was pushed there, so files that aren't ours are never deleted
+const pushManifestName = '.sync-yt-manifest.json';
+
+// Every file that belongs to the library, relative to the download directory
+function getLibraryFiles(): string[] {
+    const files = new Set<string>();
+    for (const track of Object.values(appState.tracks)) {
+        // A track waiting for a new download or transcode still owns its previous file until it's replaced
+        if (track.file) {
+            getTrackFiles(track.file, track).forEach(file => files.add(file));
+        }
+        for (const link of track.links ?? []) {
+            files.add(link);
+        }
+    }
+    for (const playlistFile of appState.playlistFiles ?? []) {
+        files.add(playlistFile);
+    }
+    return [...files].filter(file => {
+        if (fs.existsSync(path.join(downloadDirectory, file))) {
+            return true;
+        }
+        log(chalk.yellow(`⚠ Missing from the library, not pushed: ${file}`));
+        return false;
+    });
+}
+
+// Check library files against the filesystem limits; returns one message per problem
+function validateLibraryFiles(files: string[]): string[] {
+    const { maxFileSize, maxFileNameLength, maxPathLength, maxFilesPerFolder } = config.filesystem;
+    const maxSize = parseSize(maxFileSize);
+    const problems = new Set<string>();
+    const folderCounts = new Map<string, number>();
+    
+    for (const file of files) {
+        for (const name of file.split(path.sep)) {
+            if (/[<>:"\\|?*\x00-\x1f]/.test(name) || /[. ]$/.test(name)) {
+                problems.add(`Not a valid FAT name: ${name}`);
+            }
+            if (maxFileNameLength > 0 && name.length > maxFileNameLength) {
+                problems.add(`Name longer than ${maxFileNameLength} characters: ${name}`);
+            }
+        }
+        if (maxPathLength > 0 && file.length > maxPathLength) {
+            problems.add(`Path longer than ${maxPathLength} characters: ${file}`);
+        }
+        if (maxSize && fs.statSync(path.join(downloadDirectory, file)).size >= maxSize) {
+            problems.add(`File not smaller than ${maxFileSize}: ${file}`);
+        }
+        const folder = path.dirname(file);
+        folderCounts.set(folder, (folderCounts.get(folder) ?? 0) + 1);
+    }
+    if (maxFilesPerFolder > 0) {
+        for (const [folder, count] of folderCounts) {
+            if (count > maxFilesPerFolder) {
+                problems.add(`More than ${maxFilesPerFolder} files (${count}) in ${folder === '.' ? 'the top level' : folder}`);
+            }
+        }
+    }
+    return [...problems];
+}
+
+// SHA-1 of a file's contents
+function hashFile(filePath: string): Promise<string> {
+    return new Promise((resolve, reject) => {
+        const hash = crypto.createHash('sha1');
+        fs.createReadStream(filePath)
+            .on('data', chunk => hash.update(chunk))
+            .on('end', () => resolve(hash.digest('hex')))
+            .on('error', reject);
+    });
+}
+
+// Check whether the target already holds the same file. FAT only stores modification times to 2 seconds
+async function isPushedFileCurrent(sourcePath: string, targetPath: string): Promise<boolean> {
+    if (!fs.existsSync(targetPath)) {
+        return false;
+    }
+    const source = fs.statSync(sourcePath);
+    const target = fs.statSync(targetPath);
+    if (source.size !== target.size) {
+        return false;
+    }
+    if (config.push.compare === 'hash') {
+        return await hashFile(sourcePath) === await hashFile(targetPath);
+    }
+    return Math.abs(source.mtimeMs - target.mtimeMs) <= 2000;
+}
+
+// Copy through a temporary name so an interrupted push never leaves a truncated file behind
+async function pushFile(sourcePath: string, targetPath: string): Promise<void> {
+    const partialPath = `${targetPath}.part`;
+    await fs.ensureDir(path.dirname(targetPath));
+    await fs.copy(sourcePath, partialPath, { preserveTimestamps: true });
+    
+    if (config.push.verify && await hashFile(sourcePath) !== await hashFile(partialPath)) {
+        await fs.remove(partialPath);
+        throw new Error('copy does not match the original');
+    }
+    await fs.move(partialPath, targetPath, { overwrite: true });
+}
+
+// Files a previous push put on the target. The manifest is on the target too and may have been edited, so only
+// paths inside the target directory are used
+function readPushManifest(manifestPath: string, targetDirectory: string): string[] {
+    if (!fs.existsSync(manifestPath)) {
+        return [];
+    }
+    const files = fs.readJsonSync(manifestPath, { throws: false })?.files;
+    if (!Array.isArray(files)) {
+        log(chalk.yellow(`⚠ Ignoring ${pushManifestName}, it has no list of files`));
+        return [];
+    }
+    return files.filter(file => {
+        if (typeof file === 'string' && path.resolve(targetDirectory, file).startsWith(targetDirectory + path.sep)) {
+            return true;
+        }
+        log(chalk.yellow(`⚠ Ignoring ${pushManifestName} entry outside the target directory: ${JSON.stringify(file)}`));
+        return false;
+    });
+}
+
+// The "push" command: mirror the library onto a target directory
+async function pushLibrary(targetArg: string | undefined, dryRun: boolean, force: boolean) {
+    const targetDirectory = path.resolve(targetArg || config.push.target || '');
+    if (!targetArg && !config.push.target) {
+        throw new Error('push requires a target directory (or set push.target in the config file)');
+    }
+    if (!fs.existsSync(targetDirectory) || !fs.statSync(targetDirectory).isDirectory()) {
+        throw new Error(`Target directory not found (is the USB stick mounted?): ${targetDirectory}`);
+    }
+    if (targetDirectory === downloadDirectory || targetDirectory.startsWith(downloadDirectory + path.sep)) {
+        throw new Error(`Target directory can't be inside the download directory: ${targetDirectory}`);
+    }
+    
+    const libraryFiles = getLibraryFiles();
+    if (libraryFiles.length === 0) {
+        // Most likely a missing or empty state file; mirroring it would wipe the target
+        throw new Error(`No library files found in ${stateFile}, refusing to push`);
+    }
+    
+    const problems = validateLibraryFiles(libraryFiles);
+    if (problems.length > 0) {
+        problems.forEach(problem => log(chalk.yellow(`⚠ ${problem}`)));
+        if (!force) {
+            throw new Error(`${problems.length} problem(s) with the filesystem limits, adjust "filesystem" and sync again or push with --force`);
+        }
+    }
+    
+    const manifestPath = path.join(targetDirectory, pushManifestName);
+    const previousFiles = readPushManifest(manifestPath, targetDirectory);
+    const summary = { added: 0, updated: 0, deleted: 0, unchanged: 0, failed: 0, bytes: 0 };
+    
+    log(chalk.cyan(`🔄 ${dryRun ? 'Checking' : 'Pushing'} ${libraryFiles.length} file(s) to ${targetDirectory}`));
+    for (const file of libraryFiles) {
+        const sourcePath = path.join(downloadDirectory, file);
+        const targetPath = path.join(targetDirectory, file);
+        try {
+            if (await isPushedFileCurrent(sourcePath, targetPath)) {
+                summary.unchanged++;
+                continue;
+            }
+            const isUpdate = fs.existsSync(targetPath);
+            log(isUpdate ? chalk.yellow(`~ ${file}`) : chalk.green(`+ ${file}`));
+            if (!dryRun) {
+                await pushFile(sourcePath, targetPath);
+            }
+            summary[isUpdate ? 'updated' : 'added']++;
+            summary.bytes += fs.statSync(sourcePath).size;
+        } catch (error) {
+            const errorMessage = error instanceof Error ? error.message : String(error);
+            log(chalk.red(`✗ ${file}: ${errorMessage}`));
+            summary.failed++;
+        }
+    }
+    
+    // Only files a previous push put there are removed; anything else on the target is left alone
+    for (const file of previousFiles.filter(file => !libraryFiles.includes(file))) {
+        const targetPath = path.join(targetDirectory, file);
+        if (!fs.existsSync(targetPath)) {
+            continue;
+        }
+        log(chalk.red(`- ${file}`));
+        if (!dryRun) {
+            try {
+                fs.removeSync(targetPath);
+                removeEmptyDirectories(path.dirname(targetPath), targetDirectory);
+            } catch (error) {
+                const errorMessage = error instanceof Error ? error.message : String(error);
+                log(chalk.red(`✗ ${file}: ${errorMessage}`));
+                summary.failed++;
+                continue;
+            }
+        }
+        summary.deleted++;
+    }
+    
+    if (!dryRun) {
+        const pushedFiles = [...new Set([...libraryFiles, ...previousFiles])]
+            .filter(file => fs.existsSync(path.join(targetDirectory, file)));
+        fs.writeJsonSync(manifestPath, { files: pushedFiles }, { spaces: 2 });
+    }
+    
+    log(chalk.cyan(`📊 ${dryRun ? 'Dry run: ' : ''}${summary.added} added, ${summary.updated} updated, ${summary.deleted} deleted, ${summary.unchanged} unchanged, ${summary.failed} failed (${(summary.bytes / 1024 / 1024).toFixed(1)} MB copied)`));
+    if (summary.failed > 0) {
+        process.exitCode = 1;
+    }
 }
 
-// Fix for proper exit handling
-screen.key(['q', 'C-c', 'C-d'], () => {
-    cleanupAndExit(0);
-});
+// The "verify" command: check every file in the library against its profile. With reset, tracks that fail
+// are marked for a new download on the next sync
+async function verifyLibrary(reset: boolean) {
+    const tracks = Object.entries(appState.tracks).filter(([, track]) => track.downloaded && track.file);
+    if (tracks.length === 0) {
+        log(chalk.gray(`No downloaded tracks recorded in ${stateFile}`));
+        return;
+    }
+    
+    // Tracks are checked against the format they were transcoded to. For entries that don't record it, single
+    // videos may override their profile; for playlist tracks the stored profile is all that's known
+    const videoSources = config.videoUrls.map(toSourceConfig);
+    let failed = 0;
+    log(chalk.cyan(`🔍 Verifying ${tracks.length} track(s) in ${downloadDirectory}`));
+    for (const [key, track] of tracks) {
+        const title = track.title || track.url || key;
+        let problems: string[];
+        try {
+            const source = track.output
+                ? { url: track.url ?? key, profile: track.profile, ...track.output }
+                : videoSources.find(videoSource => getTrackKey(videoSource.url) === key) ?? { url: track.url ?? key, profile: track.profile };
+            const files = getTrackFiles(track.file ?? '', track).map(file => path.join(downloadDirectory, file));
+            const outputs: OutputCheck[] = track.chapters
+                ? track.chapters.map((chapter, index) => ({
+                    files: [files[index]],
+                    // Older entries of trimmed sets don't know their tracks' lengths
+                    duration: chapter.duration ?? (track.trim ? undefined : (chapter.end ?? track.duration ?? 0) - chapter.start || undefined)
+                }))
+                : [{ files, duration: track.duration }];
+            problems = await findOutputProblems(outputs, resolveOutputSettings(source));
+        } catch (error) {
+            problems = [error instanceof Error ? error.message : String(error)];
+        }
+        
+        if (problems.length === 0) {
+            log(chalk.green(`✓ ${title}`));
+            continue;
+        }
+        failed++;
+        log(chalk.red(`✗ ${title}`));
+        problems.forEach(problem => log(chalk.yellow(`    ${problem}`)));
+        if (reset) {
+            appState.tracks[key].downloaded = false;
+            appState.tracks[key].error = `Output check failed: ${problems.join('; ')}`;
+        }
+    }
+    
+    if (reset && failed > 0) {
+        flushState();
+    }
+    log(chalk.cyan(`📊 ${tracks.length - failed} passed, ${failed} failed${reset && failed > 0 ? ' (marked for a new download on the next sync)' : ''}`));
+    if (failed > 0) {
+        process.exitCode = 1;
+    }
+}
 
-// Handle process signals
-process.on('SIGINT', () => {
-    log(chalk.yellow('Received SIGINT signal (Ctrl+C)'));
-    cleanupAndExit(0);
-});
+// Parse the command line and run the requested command
+async function main() {
+    try {
+        cliOptions = parseArgs(process.argv.slice(2));
+        if (cliOptions.flags.help) {
+            cliOptions.command = 'help';
+        }
+        if (cliOptions.command === 'sync') {
+            await runSync();
+            return;
+        }
+        
+        config = loadConfig();
+        loadState();
+        
+        switch (cliOptions.command) {
+            case 'add':
+                addSource(cliOptions.args[0]);
+                break;
+            case 'remove':
+                removeSource(cliOptions.args[0]);
+                break;
+            case 'list':
+                listTracks();
+                break;
+            case 'status':
+                printStatus();
+                break;
+            case 'retry':
+                retryTracks(cliOptions.args[0], cliOptions.flags['all-failed'] === true);
+                break;
+            case 'profiles':
+                listProfiles();
+                break;
+            case 'push':
+                await pushLibrary(cliOptions.args[0], cliOptions.flags['dry-run'] === true, cliOptions.flags.force === true);
+                break;
+            case 'verify':
+                await verifyLibrary(cliOptions.flags.reset === true);
+                break;
+            case 'help':
+                printUsage();
+                break;
+            default:
+                printUsage();
+                throw new Error(`Unknown command: ${cliOptions.command}`);
+        }
+    } catch (error) {
+        const errorMessage = error instanceof Error ? error.message : String(error);
+        console.error(chalk.red(`❌ ${errorMessage}`));
+        process.exitCode = 1;
+    }
+}
 
-process.on('SIGTERM', () => {
-    log(chalk.yellow('Received SIGTERM signal'));
-    cleanupAndExit(0);
-});
+// Start the application when run as a script; the tests import it instead
+if (require.main === module) {
+    installProcessHandlers();
+    main().catch(error => {
+        log(chalk.red(`❌ Fatal error: ${error}`));
+        process.exit(1);
+    });
+}
 
-// Start the application
-main().catch(error => {
-    log(chalk.red(`❌ Fatal error: ${error}`));
-    process.exit(1);
-});
+// Used by the tests
+export {
+    ProcessRunner,
+    RunningProcess,
+    setProcessRunner,
+    main,
+    runSync,
+    getTrackKey,
+    classifyError,
+    TrackInfo,
+    parseDownloadProgress,
+    updateFfmpegProgress
+};
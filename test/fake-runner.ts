@@ -0,0 +1,90 @@
+import { EventEmitter } from 'events';
+import { PassThrough } from 'stream';
+import * as fs from 'fs-extra';
+import * as path from 'path';
+import type { ProcessRunner, RunningProcess } from '../sync-yt';
+
+// Recorded output of a command, replayed when a call matches it
+export interface Recording {
+    command: string;
+    args?: RegExp; // Matched against the arguments joined with spaces
+    stdout?: string;
+    stderr?: string; // Replayed line by line, like the progress output of the real tools
+    code?: number;
+    times?: number; // Only match this many calls, then leave them to later recordings
+    run?: (args: string[]) => void; // Side effects of the command, like writing its output file
+}
+
+// Output recorded from the real tools, in test/fixtures
+export function readFixture(name: string): string {
+    return fs.readFileSync(path.join(__dirname, 'fixtures', name), 'utf8');
+}
+
+// Value following an option in a command line, like the path after -o
+export function getOption(args: string[], option: string): string {
+    return args[args.indexOf(option) + 1];
+}
+
+class FakeProcess extends EventEmitter implements RunningProcess {
+    stdout = new PassThrough();
+    stderr = new PassThrough();
+    private closed = false;
+
+    kill(): boolean {
+        this.close(null);
+        return true;
+    }
+
+    close(code: number | null) {
+        if (!this.closed) {
+            this.closed = true;
+            this.emit('close', code);
+        }
+    }
+}
+
+// Process runner replaying recordings instead of starting yt-dlp, ffmpeg or ffprobe. The first matching
+// recording answers each call; a call nothing matches fails like a missing binary
+export class FakeRunner implements ProcessRunner {
+    readonly calls: { command: string; args: string[] }[] = [];
+
+    constructor(private readonly recordings: Recording[]) {}
+
+    spawn(command: string, args: string[]): RunningProcess {
+        this.calls.push({ command, args });
+        const fakeProcess = new FakeProcess();
+        const recording = this.recordings.find(candidate =>
+            candidate.command === command
+            && (candidate.times === undefined || candidate.times > 0)
+            && (!candidate.args || candidate.args.test(args.join(' '))));
+        if (!recording) {
+            setImmediate(() => fakeProcess.emit('error', new Error(`spawn ${command} ENOENT (no recording for: ${args.join(' ')})`)));
+            return fakeProcess;
+        }
+        if (recording.times !== undefined) {
+            recording.times--;
+        }
+        setImmediate(() => this.replay(recording, args, fakeProcess));
+        return fakeProcess;
+    }
+
+    // Arguments of the calls to a command whose arguments match the pattern
+    callsTo(command: string, args?: RegExp): string[][] {
+        return this.calls
+            .filter(call => call.command === command && (!args || args.test(call.args.join(' '))))
+            .map(call => call.args);
+    }
+
+    private replay(recording: Recording, args: string[], fakeProcess: FakeProcess) {
+        recording.run?.(args);
+        if (recording.stdout) {
+            fakeProcess.stdout.write(recording.stdout);
+        }
+        for (const line of (recording.stderr ?? '').split('\n').filter(Boolean)) {
+            fakeProcess.stderr.write(`${line}\n`);
+        }
+        fakeProcess.stdout.end();
+        fakeProcess.stderr.end();
+        setImmediate(() => fakeProcess.close(recording.code ?? 0));
+    }
+}
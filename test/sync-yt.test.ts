@@ -0,0 +1,574 @@
+import { test, beforeEach, afterEach, after, mock } from 'node:test';
+import assert from 'node:assert/strict';
+import * as fs from 'fs-extra';
+import * as os from 'os';
+import * as path from 'path';
+import { FakeRunner, Recording, readFixture, getOption } from './fake-runner';
+
+// The script picks its data directory and config file when it's loaded
+const dataDirectory = fs.mkdtempSync(path.join(os.tmpdir(), 'sync-yt-test-'));
+const configFile = path.join(dataDirectory, 'sync.config.json');
+const stateFile = path.join(dataDirectory, 'sync_state.json');
+process.env.SYNC_DATA_DIR = dataDirectory;
+process.env.SYNC_CONFIG = configFile;
+const sync: typeof import('../sync-yt') = require('../sync-yt');
+
+const playlistUrl = 'https://youtube.com/playlist?list=PL1';
+
+function writeConfig(settings: { [key: string]: any } = {}) {
+    fs.writeJsonSync(configFile, {
+        playlistUrls: [playlistUrl],
+        videoUrls: [],
+        downloadConcurrency: 1,
+        concurrency: 1,
+        tags: { coverArt: false },
+        verify: { enabled: false },
+        streamCopy: false,
+        ...settings
+    });
+}
+
+function readState(): any {
+    return fs.readJsonSync(stateFile);
+}
+
+// Startup checks and the playlist
+function toolRecordings(): Recording[] {
+    return [
+        { command: 'yt-dlp', args: /^--version$/, stdout: '2025.01.01\n' },
+        { command: 'yt-dlp', args: /^--update/, stdout: 'yt-dlp is up to date (stable@2025.01.01)\n' },
+        { command: 'ffmpeg', args: /^-version$/, stdout: 'ffmpeg version 6.1.1 Copyright (c) 2000-2023 the FFmpeg developers\n' },
+        { command: 'yt-dlp', args: /--flat-playlist/, stdout: readFixture('yt-dlp-playlist.json') }
+    ];
+}
+
+function metadataRecording(id: string, info: { [key: string]: any } = {}): Recording {
+    const metadata = { ...JSON.parse(readFixture('yt-dlp-metadata.json')), id, webpage_url: `https://www.youtube.com/watch?v=${id}`, ...info };
+    return { command: 'yt-dlp', args: new RegExp(` -j .*${id}$`), stdout: JSON.stringify(metadata) };
+}
+
+function failure(command: string, args: RegExp, stderr: string, times?: number): Recording {
+    return { command, args, stderr, code: 1, times };
+}
+
+// Downloads and transcodes that succeed and leave their output file behind
+function pipelineRecordings(): Recording[] {
+    return [
+        {
+            command: 'yt-dlp',
+            args: / -o /,
+            stderr: readFixture('yt-dlp-download.stderr'),
+            run: args => fs.writeFileSync(`${getOption(args, '-o')}.webm`, 'webm')
+        },
+        {
+            command: 'ffmpeg',
+            args: /libx264/,
+            stderr: readFixture('ffmpeg-transcode.stderr'),
+            run: args => fs.writeFileSync(args[args.length - 1], 'mp4')
+        }
+    ];
+}
+
+async function runSync(recordings: Recording[]): Promise<FakeRunner> {
+    const runner = new FakeRunner(recordings);
+    sync.setProcessRunner(runner);
+    await sync.runSync();
+    return runner;
+}
+
+// Run one of the other commands as the command line would
+async function runCommand(...args: string[]) {
+    const argv = process.argv;
+    process.argv = [argv[0], 'sync-yt.ts', ...args];
+    try {
+        await sync.main();
+    } finally {
+        process.argv = argv;
+    }
+}
+
+beforeEach(() => {
+    fs.emptyDirSync(dataDirectory);
+    mock.method(console, 'log', () => undefined);
+});
+
+afterEach(() => {
+    mock.restoreAll();
+    process.exitCode = 0;
+});
+
+after(() => {
+    fs.removeSync(dataDirectory);
+});
+
+test('parses yt-dlp download progress', () => {
+    const lines = readFixture('yt-dlp-download.stderr').split('\n');
+    assert.equal(sync.parseDownloadProgress(lines[0]), undefined);
+    assert.deepEqual(sync.parseDownloadProgress(lines[3]), { progress: 4.7, size: '153.81MiB', speed: '2.19MiB/s', eta: '01:12' });
+    assert.equal(sync.parseDownloadProgress(lines[5])?.progress, 100);
+});
+
+test('parses ffmpeg progress against the input duration', () => {
+    const trackInfo: import('../sync-yt').TrackInfo = { url: 'https://youtube.com/watch?v=aaa111', title: 'Song A', status: 'transcoding' };
+    let output = '';
+    const progress: number[] = [];
+    for (const line of readFixture('ffmpeg-transcode.stderr').split('\n')) {
+        output += `${line}\n`;
+        sync.updateFfmpegProgress(line, output, trackInfo);
+        progress.push(trackInfo.progress ?? 0);
+    }
+    assert.ok(Math.abs(progress[7] - 53.72 / 215 * 100) < 0.01);
+    assert.equal(trackInfo.progress, 100);
+
+    // A trimmed transcode only covers part of the input
+    sync.updateFfmpegProgress('frame=1 time=00:00:30.00 bitrate=1', output, trackInfo, 60);
+    assert.equal(trackInfo.progress, 50);
+    assert.equal(trackInfo.eta, '0:30');
+});
+
+test('keys tracks by video id whatever the URL form', () => {
+    for (const url of [
+        'https://youtube.com/watch?v=aaa111',
+        'https://www.youtube.com/watch?v=aaa111&t=30',
+        'https://youtu.be/aaa111',
+        'https://music.youtube.com/watch?v=aaa111&list=PL1',
+        'https://www.youtube.com/shorts/aaa111'
+    ]) {
+        assert.equal(sync.getTrackKey(url), 'youtube:aaa111', url);
+    }
+    assert.equal(sync.getTrackKey('https://vimeo.com/123'), 'https://vimeo.com/123');
+});
+
+test('classifies errors from the output of the tools', () => {
+    const classify = (stderr: string) => sync.classifyError(Object.assign(new Error('Command failed with code 1'), { stderr }));
+    assert.equal(classify('ERROR: [youtube] aaa111: Video unavailable. This video is private'), 'unavailable');
+    assert.equal(classify('ERROR: [youtube] aaa111: Video unavailable. The uploader has not made this video available in your country'), 'geo-blocked');
+    assert.equal(classify('ERROR: [youtube] aaa111: Sign in to confirm your age. This video may be inappropriate for some users.'), 'age-restricted');
+    assert.equal(classify('ERROR: [youtube] aaa111: Signature extraction failed: Some formats may be missing'), 'extractor');
+    assert.equal(classify('ERROR: [youtube] aaa111: Unable to download webpage: HTTP Error 503: Service Unavailable'), 'network');
+    assert.equal(classify('[aac @ 0x1] Error writing trailer: No space left on device'), 'disk-full');
+    assert.equal(sync.classifyError(new Error('Transcoding failed with code 1')), 'ffmpeg');
+    assert.equal(sync.classifyError('something else'), 'unknown');
+});
+
+test('downloads, transcodes and records new tracks', async () => {
+    writeConfig();
+    const runner = await runSync([
+        ...toolRecordings(),
+        metadataRecording('aaa111', { title: 'Song A' }),
+        metadataRecording('bbb222', { title: 'Song B' }),
+        ...pipelineRecordings()
+    ]);
+
+    const state = readState();
+    assert.equal(state.version, 1);
+    assert.deepEqual(state.stats, { totalTracks: 2, completedTracks: 2, errorTracks: 0 });
+    for (const [key, file] of [['youtube:aaa111', 'My List/01 - Song A.mp4'], ['youtube:bbb222', 'My List/02 - Song B.mp4']]) {
+        const track = state.tracks[key];
+        assert.equal(track.downloaded, true);
+        assert.equal(track.file, file);
+        assert.equal(track.stage, 'finalized');
+        assert.equal(track.duration, 215);
+        assert.deepEqual(Object.keys(track.metadata).sort(), [
+            'album', 'album_artist', 'artist', 'artists', 'creator', 'genre', 'genres', 'id',
+            'release_year', 'title', 'track_number', 'upload_date', 'uploader', 'webpage_url'
+        ]);
+        assert.ok(fs.existsSync(path.join(dataDirectory, 'Downloaded', file)));
+    }
+    assert.equal(runner.callsTo('yt-dlp', / -o /).length, 2);
+    assert.equal(runner.callsTo('ffmpeg', /libx264/).length, 2);
+    assert.deepEqual(fs.readdirSync(path.join(dataDirectory, 'Temp')), []);
+    assert.ok(!fs.existsSync(`${stateFile}.tmp`));
+});
+
+test('skips tracks that are already downloaded', async () => {
+    writeConfig();
+    const recordings = () => [
+        ...toolRecordings(),
+        metadataRecording('aaa111', { title: 'Song A' }),
+        metadataRecording('bbb222', { title: 'Song B' }),
+        ...pipelineRecordings()
+    ];
+    await runSync(recordings());
+    const runner = await runSync(recordings());
+
+    assert.equal(runner.callsTo('yt-dlp', / -j /).length, 0);
+    assert.equal(runner.callsTo('yt-dlp', / -o /).length, 0);
+    assert.equal(runner.callsTo('ffmpeg', /libx264/).length, 0);
+    assert.deepEqual(readState().stats, { totalTracks: 2, completedTracks: 2, errorTracks: 0 });
+
+    // The second sync backs up the state file the first one wrote
+    assert.equal(fs.readJsonSync(`${stateFile}.bak`).tracks['youtube:aaa111'].downloaded, true);
+});
+
+test('re-downloads a track whose file is gone', async () => {
+    writeConfig();
+    const recordings = () => [
+        ...toolRecordings(),
+        metadataRecording('aaa111', { title: 'Song A' }),
+        metadataRecording('bbb222', { title: 'Song B' }),
+        ...pipelineRecordings()
+    ];
+    await runSync(recordings());
+    fs.removeSync(path.join(dataDirectory, 'Downloaded', 'My List', '01 - Song A.mp4'));
+    const runner = await runSync(recordings());
+
+    assert.deepEqual(runner.callsTo('yt-dlp', / -o /).map(args => args[args.length - 1]), ['https://youtube.com/watch?v=aaa111']);
+    assert.ok(fs.existsSync(path.join(dataDirectory, 'Downloaded', 'My List', '01 - Song A.mp4')));
+});
+
+test('keeps the file of a track whose re-transcode failed', async () => {
+    writeConfig();
+    const recordings = (...extra: Recording[]) => [
+        ...toolRecordings(),
+        metadataRecording('aaa111', { title: 'Song A' }),
+        metadataRecording('bbb222', { title: 'Song B' }),
+        ...extra,
+        ...pipelineRecordings()
+    ];
+    await runSync(recordings());
+    writeConfig({ profile: 'main-1080p' });
+    await runSync(recordings(failure('ffmpeg', /libx264/, 'Conversion failed!')));
+
+    const track = readState().tracks['youtube:aaa111'];
+    assert.equal(track.downloaded, false);
+    assert.ok(track.error);
+    assert.equal(track.file, 'My List/01 - Song A.mp4');
+
+    // Until it's replaced, the old file stays on the stick
+    process.exitCode = 0;
+    const target = path.join(dataDirectory, 'stick');
+    fs.ensureDirSync(target);
+    await runCommand('push', target);
+    assert.ok(fs.existsSync(path.join(target, 'My List', '01 - Song A.mp4')));
+    await runCommand('push', target);
+    assert.equal(process.exitCode, 0);
+    assert.ok(fs.existsSync(path.join(target, 'My List', '01 - Song A.mp4')));
+
+    await runSync(recordings());
+    const { tracks } = readState();
+    assert.equal(tracks['youtube:aaa111'].downloaded, true);
+    assert.equal(tracks['youtube:aaa111'].file, 'My List/01 - Song A.mp4');
+    assert.equal(tracks['youtube:aaa111'].profile, 'main-1080p');
+    assert.deepEqual(fs.readdirSync(path.join(dataDirectory, 'Downloaded', 'My List')).filter(file => file.endsWith('.mp4')).sort(), ['01 - Song A.mp4', '02 - Song B.mp4']);
+});
+
+test('fetches the metadata once for a template that uses new fields', async () => {
+    writeConfig();
+    const recordings = () => [
+        ...toolRecordings(),
+        metadataRecording('aaa111', { title: 'Song A' }),
+        metadataRecording('bbb222', { title: 'Song B' }),
+        ...pipelineRecordings()
+    ];
+    await runSync(recordings());
+    writeConfig({ fileNames: { template: '{channel} - {title}' } });
+    const renaming = await runSync(recordings());
+    const renamed = await runSync(recordings());
+
+    assert.equal(renaming.callsTo('yt-dlp', / -j /).length, 2);
+    assert.equal(renamed.callsTo('yt-dlp', / -j /).length, 0);
+    assert.equal(renamed.callsTo('yt-dlp', / -o /).length, 0);
+    const track = readState().tracks['youtube:aaa111'];
+    assert.equal(track.file, 'My List/01 - Artist A - Song A.mp4');
+    assert.equal(track.metadata.channel, 'Artist A');
+});
+
+test('gives tracks with the same title different file names', async () => {
+    writeConfig({ playlistUrls: [], videoUrls: ['https://youtube.com/watch?v=aaa111', 'https://youtu.be/bbb222'] });
+    await runSync([
+        ...toolRecordings(),
+        metadataRecording('aaa111', { title: 'Live Set' }),
+        metadataRecording('bbb222', { title: 'Live Set' }),
+        ...pipelineRecordings()
+    ]);
+
+    const { tracks } = readState();
+    assert.equal(tracks['youtube:aaa111'].file, 'Singles/Live Set.mp4');
+    assert.equal(tracks['youtube:bbb222'].file, 'Singles/Live Set [bbb222].mp4');
+    assert.equal(tracks['youtube:bbb222'].nameSuffix, ' [bbb222]');
+    assert.deepEqual(fs.readdirSync(path.join(dataDirectory, 'Downloaded', 'Singles')).sort(), ['Live Set [bbb222].mp4', 'Live Set.mp4']);
+});
+
+test('spells titles in Latin letters', async () => {
+    writeConfig();
+    await runSync([
+        ...toolRecordings(),
+        metadataRecording('aaa111', { title: '周杰伦 - 晴天' }),
+        metadataRecording('bbb222', { title: 'ラブ 2 東京' }),
+        ...pipelineRecordings()
+    ]);
+
+    const { tracks } = readState();
+    assert.equal(tracks['youtube:aaa111'].file, 'My List/01 - Zhou Jie Lun - Qing Tian.mp4');
+    // Kanji in a Japanese title have no reading to go by
+    assert.equal(tracks['youtube:bbb222'].file, 'My List/02 - rabu 2.mp4');
+});
+
+test('copies H.264 and AAC sources that fit the profile', async () => {
+    writeConfig({ streamCopy: true });
+    const probe = JSON.parse(readFixture('ffprobe-h264-aac.json'));
+    const opusProbe = { ...probe, streams: [probe.streams[0], { ...probe.streams[1], codec_name: 'opus', profile: undefined }] };
+    const runner = await runSync([
+        ...toolRecordings(),
+        { command: 'ffprobe', args: /^-version$/, stdout: 'ffprobe version 6.1.1\n' },
+        { command: 'ffprobe', args: /aaa111.*_download/, stdout: JSON.stringify(probe) },
+        { command: 'ffprobe', args: /bbb222.*_download/, stdout: JSON.stringify(opusProbe) },
+        metadataRecording('aaa111', { title: 'Song A' }),
+        metadataRecording('bbb222', { title: 'Song B' }),
+        {
+            command: 'yt-dlp',
+            args: / -o /,
+            run: args => fs.writeFileSync(`${getOption(args, '-o')}.mp4`, 'mp4')
+        },
+        {
+            command: 'ffmpeg',
+            args: / -c:v:0 copy /,
+            run: args => fs.writeFileSync(args[args.length - 1], 'mp4')
+        }
+    ]);
+
+    assert.match(getOption(runner.callsTo('yt-dlp', / -o /)[0], '-f'), /^bestvideo\[height<=720\]\[vcodec\^=avc1\]\+bestaudio\[acodec\^=mp4a\]\//);
+    const [copied, audioEncoded] = runner.callsTo('ffmpeg', / -c:v:0 copy /);
+    assert.deepEqual(copied.slice(copied.indexOf('-c:v:0'), copied.indexOf('-map_metadata')), ['-c:v:0', 'copy', '-c:a', 'copy']);
+    assert.deepEqual(audioEncoded.slice(audioEncoded.indexOf('-c:v:0'), audioEncoded.indexOf('-map_metadata')), ['-c:v:0', 'copy', '-c:a', 'aac', '-b:a', '192k']);
+    assert.ok(copied.some(arg => arg.includes('aaa111')));
+    assert.equal(readState().stats.completedTracks, 2);
+});
+
+test('drops the source tags with tagging disabled', async () => {
+    writeConfig({ tags: { enabled: false } });
+    const runner = await runSync([
+        ...toolRecordings(),
+        metadataRecording('aaa111', { title: 'Song A' }),
+        metadataRecording('bbb222', { title: 'Song B' }),
+        ...pipelineRecordings()
+    ]);
+
+    for (const args of runner.callsTo('ffmpeg', /libx264/)) {
+        assert.equal(getOption(args, '-map_metadata'), '-1');
+        assert.ok(!args.includes('-metadata'));
+    }
+    assert.equal(runner.callsTo('ffmpeg', /libx264/).length, 2);
+});
+
+test('gives playlist files with the same name different names', async () => {
+    writeConfig({
+        playlistUrls: [playlistUrl, 'https://youtube.com/playlist?list=PL2'],
+        playlistFiles: { allTracksName: 'My List' }
+    });
+    const otherPlaylist = {
+        ...JSON.parse(readFixture('yt-dlp-playlist.json')),
+        id: 'PL2',
+        title: 'MY LIST',
+        entries: [{ _type: 'url', ie_key: 'Youtube', id: 'ccc333', url: 'https://www.youtube.com/watch?v=ccc333', title: 'Song C' }]
+    };
+    await runSync([
+        { command: 'yt-dlp', args: /--flat-playlist.*PL2$/, stdout: JSON.stringify(otherPlaylist) },
+        ...toolRecordings(),
+        metadataRecording('aaa111', { title: 'Song A' }),
+        metadataRecording('bbb222', { title: 'Song B' }),
+        metadataRecording('ccc333', { title: 'Song C' }),
+        ...pipelineRecordings()
+    ]);
+
+    const playlistFile = (name: string) => fs.readFileSync(path.join(dataDirectory, 'Downloaded', name), 'latin1');
+    assert.deepEqual(readState().playlistFiles, ['My List (2).m3u', 'MY LIST (3).m3u', 'My List.m3u']);
+    assert.match(playlistFile('My List (2).m3u'), /Song B/);
+    assert.doesNotMatch(playlistFile('MY LIST (3).m3u'), /Song A/);
+    assert.match(playlistFile('My List.m3u'), /Song C/);
+});
+
+test('does not overwrite a file whose name only differs in case', async () => {
+    writeConfig({ playlistUrls: [], videoUrls: ['https://youtube.com/watch?v=aaa111'] });
+    fs.outputFileSync(path.join(dataDirectory, 'Downloaded', 'singles', 'live set.mp4'), 'mine');
+    await runSync([
+        ...toolRecordings(),
+        metadataRecording('aaa111', { title: 'Live Set' }),
+        ...pipelineRecordings()
+    ]);
+
+    assert.equal(readState().tracks['youtube:aaa111'].file, 'Singles/Live Set [aaa111].mp4');
+    assert.equal(fs.readFileSync(path.join(dataDirectory, 'Downloaded', 'singles', 'live set.mp4'), 'utf8'), 'mine');
+});
+
+test('retries network errors within the sync', async () => {
+    writeConfig({ retryPolicies: { network: { inRunRetries: 2, backoff: 0 } } });
+    const runner = await runSync([
+        ...toolRecordings(),
+        metadataRecording('aaa111', { title: 'Song A' }),
+        metadataRecording('bbb222', { title: 'Song B' }),
+        failure('yt-dlp', / -o .*v=aaa111$/, 'ERROR: [youtube] aaa111: Unable to download webpage: HTTP Error 503: Service Unavailable', 1),
+        ...pipelineRecordings()
+    ]);
+
+    const state = readState();
+    assert.equal(state.tracks['youtube:aaa111'].downloaded, true);
+    assert.equal(state.tracks['youtube:aaa111'].retries, undefined);
+    assert.equal(runner.callsTo('yt-dlp', / -o .*v=aaa111$/).length, 2);
+    assert.ok(runner.callsTo('yt-dlp', / -o /)[0].includes('--continue'));
+});
+
+test('records unavailable videos and waits before retrying them', async () => {
+    writeConfig();
+    await runSync([
+        ...toolRecordings(),
+        metadataRecording('aaa111', { title: 'Song A' }),
+        failure('yt-dlp', / -j .*v=bbb222$/, 'ERROR: [youtube] bbb222: Video unavailable. This video is private'),
+        ...pipelineRecordings()
+    ]);
+
+    const track = readState().tracks['youtube:bbb222'];
+    assert.equal(track.downloaded, false);
+    assert.equal(track.errorCode, 'unavailable');
+    assert.equal(track.retries, 1);
+    assert.ok(Date.parse(track.nextAttempt) > Date.now() + 6 * 24 * 3600 * 1000);
+    assert.equal(process.exitCode, 1);
+
+    // The next sync leaves it alone until then
+    const runner = await runSync([...toolRecordings(), ...pipelineRecordings()]);
+    assert.equal(runner.callsTo('yt-dlp', /v=bbb222$/).length, 0);
+    assert.equal(readState().tracks['youtube:bbb222'].retries, 1);
+    assert.deepEqual(readState().stats, { totalTracks: 2, completedTracks: 1, errorTracks: 1 });
+});
+
+test('gives up after the retries of the error class', async () => {
+    writeConfig({ retryPolicies: { extractor: { maxRetries: 2, inRunRetries: 0, retryAfter: 0 } } });
+    const recordings = () => [
+        ...toolRecordings(),
+        metadataRecording('aaa111', { title: 'Song A' }),
+        failure('yt-dlp', / -j .*v=bbb222$/, 'ERROR: [youtube] bbb222: Signature extraction failed'),
+        ...pipelineRecordings()
+    ];
+    await runSync(recordings());
+    await runSync(recordings());
+    assert.equal(readState().tracks['youtube:bbb222'].retries, 2);
+
+    const runner = await runSync(recordings());
+    assert.equal(runner.callsTo('yt-dlp', /v=bbb222$/).length, 0);
+    assert.equal(readState().tracks['youtube:bbb222'].errorCode, 'extractor');
+});
+
+test('resumes an interrupted track from its download', async () => {
+    writeConfig();
+    await runSync([
+        ...toolRecordings(),
+        metadataRecording('aaa111', { title: 'Song A' }),
+        metadataRecording('bbb222', { title: 'Song B' }),
+        pipelineRecordings()[0],
+        failure('ffmpeg', /libx264/, '[aac @ 0x1] Error writing trailer: No space left on device')
+    ]);
+    const failed = readState().tracks['youtube:aaa111'];
+    assert.equal(failed.errorCode, 'disk-full');
+    assert.equal(failed.stage, 'downloaded');
+
+    // disk-full waits an hour by default; the retry command would reset that
+    const state = readState();
+    for (const track of Object.values<any>(state.tracks)) {
+        delete track.nextAttempt;
+    }
+    fs.writeJsonSync(stateFile, state);
+
+    const runner = await runSync([...toolRecordings(), ...pipelineRecordings()]);
+    assert.equal(runner.callsTo('yt-dlp', / -j /).length, 0);
+    assert.equal(runner.callsTo('yt-dlp', / -o /).length, 0);
+    assert.equal(runner.callsTo('ffmpeg', /libx264/).length, 2);
+    assert.equal(readState().tracks['youtube:aaa111'].downloaded, true);
+});
+
+test('verifies tracks against the format of their source', async () => {
+    writeConfig({ playlistUrls: [{ url: playlistUrl, mediaType: 'audio' }], verify: { enabled: false, decodeSeconds: 0 } });
+    await runSync([
+        ...toolRecordings(),
+        metadataRecording('aaa111', { title: 'Song A' }),
+        metadataRecording('bbb222', { title: 'Song B' }),
+        pipelineRecordings()[0],
+        { command: 'ffmpeg', args: /libmp3lame/, run: args => fs.writeFileSync(args[args.length - 1], 'mp3') }
+    ]);
+    assert.equal(readState().tracks['youtube:aaa111'].file, 'My List/01 - Song A.mp3');
+    assert.equal(readState().tracks['youtube:aaa111'].output.mediaType, 'audio');
+
+    const probe = {
+        streams: [{ codec_type: 'audio', codec_name: 'mp3', sample_rate: '44100', channels: 2, bit_rate: '192000' }],
+        format: { format_name: 'mp3', duration: '215.000000' }
+    };
+    sync.setProcessRunner(new FakeRunner([{ command: 'ffprobe', stdout: JSON.stringify(probe) }]));
+    await runCommand('verify', '--reset');
+
+    assert.equal(process.exitCode, 0);
+    assert.equal(readState().tracks['youtube:aaa111'].downloaded, true);
+});
+
+test('only removes files of the push manifest inside the target', async () => {
+    writeConfig();
+    await runSync([
+        ...toolRecordings(),
+        metadataRecording('aaa111', { title: 'Song A' }),
+        metadataRecording('bbb222', { title: 'Song B' }),
+        ...pipelineRecordings()
+    ]);
+    const target = path.join(dataDirectory, 'stick');
+    const outside = path.join(dataDirectory, 'outside.mp4');
+    fs.outputFileSync(path.join(target, 'My List', 'Old Song.mp4'), 'mp4');
+    fs.outputFileSync(outside, 'mp4');
+    fs.writeJsonSync(path.join(target, '.sync-yt-manifest.json'), { files: ['My List/Old Song.mp4', '../outside.mp4', outside, 42] });
+    await runCommand('push', target);
+
+    assert.equal(process.exitCode, 0);
+    assert.ok(fs.existsSync(outside));
+    assert.ok(!fs.existsSync(path.join(target, 'My List', 'Old Song.mp4')));
+    assert.deepEqual(fs.readdirSync(path.join(target, 'My List')).sort(), ['01 - Song A.mp4', '02 - Song B.mp4']);
+
+    // A manifest without a list of files removes nothing
+    fs.outputFileSync(path.join(target, 'My List', 'Old Song.mp4'), 'mp4');
+    fs.writeJsonSync(path.join(target, '.sync-yt-manifest.json'), { files: 'My List/Old Song.mp4' });
+    await runCommand('push', target);
+
+    assert.equal(process.exitCode, 0);
+    assert.ok(fs.existsSync(path.join(target, 'My List', 'Old Song.mp4')));
+});
+
+test('removes the duplicate of a track downloaded under two URLs', async () => {
+    writeConfig();
+    const entry = { downloaded: true, title: 'Song A', profile: 'default', duration: 215 };
+    fs.writeJsonSync(stateFile, {
+        tracks: {
+            'https://youtube.com/watch?v=aaa111': { ...entry, file: 'My List/01 - Song A.mp4' },
+            'https://youtu.be/aaa111': { ...entry, file: 'Singles/Song A.mp4' }
+        },
+        stats: { totalTracks: 1, completedTracks: 1, errorTracks: 0 }
+    });
+    for (const file of ['My List/01 - Song A.mp4', 'Singles/Song A.mp4']) {
+        fs.outputFileSync(path.join(dataDirectory, 'Downloaded', file), 'mp4');
+    }
+    await runSync([
+        ...toolRecordings(),
+        metadataRecording('bbb222', { title: 'Song B' }),
+        ...pipelineRecordings()
+    ]);
+
+    const { tracks } = readState();
+    assert.deepEqual(Object.keys(tracks).sort(), ['youtube:aaa111', 'youtube:bbb222']);
+    assert.equal(tracks['youtube:aaa111'].file, 'My List/01 - Song A.mp4');
+    assert.ok(fs.existsSync(path.join(dataDirectory, 'Downloaded', 'My List', '01 - Song A.mp4')));
+    assert.ok(!fs.existsSync(path.join(dataDirectory, 'Downloaded', 'Singles')));
+});
+
+test('refuses to overwrite a state file it cannot read', async () => {
+    writeConfig();
+    fs.writeFileSync(stateFile, '{"tracks": {');
+    mock.method(process, 'exit', () => undefined);
+    await runSync(toolRecordings());
+
+    assert.equal(fs.readFileSync(stateFile, 'utf8'), '{"tracks": {');
+});
+
+test('does not start checking outputs without ffprobe', async () => {
+    writeConfig({ verify: { enabled: true } });
+    const runner = await runSync([...toolRecordings(), ...pipelineRecordings()]);
+
+    assert.equal(process.exitCode, 1);
+    assert.equal(runner.callsTo('ffprobe').length, 1);
+    assert.equal(runner.callsTo('yt-dlp', /--flat-playlist/).length, 0);
+    assert.ok(!fs.existsSync(stateFile));
+});